@@ -1,26 +1,37 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
-import { fetchCompaniesFromPostgres } from '../src/print-postgres-companies';
+import {
+  CompanyQueryError,
+  fetchCompanyPage,
+  parseCompanyFilter,
+  parseCompanyPageOptions,
+} from '../src/print-postgres-companies';
 
 export default async function handler(
   request: VercelRequest,
   response: VercelResponse,
 ) {
+  response.setHeader('Access-Control-Allow-Origin', '*');
+  response.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  response.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (request.method === 'OPTIONS') {
+    return response.status(200).end();
+  }
+
   try {
-    const companies = await fetchCompaniesFromPostgres();
-    response.setHeader('Access-Control-Allow-Origin', '*');
-    response.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
-    response.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-    
-    if (request.method === 'OPTIONS') {
-      return response.status(200).end();
-    }
-    
-    return response.status(200).json(companies);
+    const page = await fetchCompanyPage({
+      ...parseCompanyPageOptions(request.query),
+      filter: parseCompanyFilter(request.query),
+    });
+    return response.status(200).json(page);
   } catch (error) {
+    if (error instanceof CompanyQueryError) {
+      return response.status(400).json({ message: 'Ugyldig forespørsel', error: error.message });
+    }
     console.error('Failed to fetch companies', error);
-    return response.status(500).json({ 
-      message: 'Kunne ikke hente selskaper', 
-      error: (error as Error).message 
+    return response.status(500).json({
+      message: 'Kunne ikke hente selskaper',
+      error: (error as Error).message,
     });
   }
 }
@@ -0,0 +1,18 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { checkDatabaseHealth } from '../src/db';
+
+export default async function handler(
+  request: VercelRequest,
+  response: VercelResponse,
+) {
+  response.setHeader('Access-Control-Allow-Origin', '*');
+  response.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  response.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (request.method === 'OPTIONS') {
+    return response.status(200).end();
+  }
+
+  const health = await checkDatabaseHealth();
+  return response.status(health.ok ? 200 : 503).json(health);
+}
@@ -0,0 +1,149 @@
+/**
+ * Typede kolonner som trekkes ut av data-JSONB i selskapstabellen, og et script som
+ * fyller dem for rader som ble synkronisert før kolonnene fantes.
+ *
+ * Bruk:
+ *   npm run backfill:pg
+ *   npm run backfill:pg -- --all      # skriv alle rader på nytt, ikke bare de som mangler verdier
+ */
+
+import { migrateUp } from './migrate';
+import { closePool, getPool, PostgresClient } from './db';
+import { getPostgresEnvConfig, sanitizeIdentifier } from './postgres';
+import { Enhet } from './types';
+
+const BACKFILL_BATCH_SIZE = Number(process.env.POSTGRES_BACKFILL_BATCH_SIZE ?? '5000');
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Kolonnene i samme rekkefølge som companyColumnValues, og SQL-uttrykket som gir
+ * samme verdi fra data-kolonnen
+ */
+export const COMPANY_COLUMNS: Array<[string, string]> = [
+  ['forretningsadresse_kommunenummer', `data->'forretningsadresse'->>'kommunenummer'`],
+  ['forretningsadresse_postnummer', `data->'forretningsadresse'->>'postnummer'`],
+  [
+    'antall_ansatte',
+    `CASE jsonb_typeof(data->'antallAnsatte')
+       WHEN 'number' THEN (data->>'antallAnsatte')::numeric::int
+       WHEN 'object' THEN COALESCE(data->'antallAnsatte'->>'fra', data->'antallAnsatte'->>'til')::numeric::int
+     END`,
+  ],
+  [
+    'stiftelsesdato',
+    `CASE WHEN data->>'stiftelsesdato' ~ '^\\d{4}-\\d{2}-\\d{2}$' THEN (data->>'stiftelsesdato')::date END`,
+  ],
+  ['konkurs', `(data->>'konkurs')::boolean`],
+  ['under_avvikling', `(data->>'underAvvikling')::boolean`],
+  ['registrert_i_mvaregisteret', `(data->>'registrertIMvaregisteret')::boolean`],
+  [
+    'registreringsdato',
+    `CASE WHEN data->>'registreringsdatoEnhetsregisteret' ~ '^\\d{4}-\\d{2}-\\d{2}$' THEN (data->>'registreringsdatoEnhetsregisteret')::date END`,
+  ],
+];
+
+function parseAntallAnsatte(value: Enhet['antallAnsatte']): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return Math.trunc(value);
+  }
+  if (value && typeof value === 'object') {
+    return value.fra ?? value.til ?? null;
+  }
+  return null;
+}
+
+function parseDate(value: string | undefined): string | null {
+  return value && DATE_PATTERN.test(value) ? value : null;
+}
+
+/**
+ * Verdiene for COMPANY_COLUMNS, hentet fra selskapet slik det kommer fra brreg
+ */
+export function companyColumnValues(company: Enhet): unknown[] {
+  return [
+    company.forretningsadresse?.kommunenummer ?? null,
+    company.forretningsadresse?.postnummer ?? null,
+    parseAntallAnsatte(company.antallAnsatte),
+    parseDate(company.stiftelsesdato),
+    company.konkurs ?? null,
+    company.underAvvikling ?? null,
+    company.registrertIMvaregisteret ?? null,
+    parseDate(company.registreringsdatoEnhetsregisteret),
+  ];
+}
+
+/**
+ * Fyll de typede kolonnene fra data i batcher ordnet på organisasjonsnummer, slik at
+ * hver batch er en kort transaksjon. Returnerer antall oppdaterte rader.
+ */
+export async function backfillCompanyColumns(
+  client: PostgresClient,
+  tableName: string,
+  options: { all?: boolean } = {},
+): Promise<number> {
+  // Rader der minst én kolonne mangler, slik at kolonner fra nyere migreringer også fylles.
+  // Felter som ikke finnes i data forblir NULL og skrives på nytt ved neste kjøring.
+  const missing = options.all ? 'TRUE' : COMPANY_COLUMNS.map(([column]) => `${column} IS NULL`).join(' OR ');
+  let lastOrgnr = '';
+  let updated = 0;
+
+  while (true) {
+    const result = await client.query<{ organisasjonsnummer: string; updated: boolean }>(
+      `
+        WITH batch AS (
+          SELECT organisasjonsnummer
+          FROM ${tableName}
+          WHERE organisasjonsnummer > $1
+          ORDER BY organisasjonsnummer
+          LIMIT $2
+        ),
+        changed AS (
+          UPDATE ${tableName} c
+          SET ${COMPANY_COLUMNS.map(([column, expression]) => `${column} = ${expression}`).join(',\n              ')}
+          FROM batch
+          WHERE c.organisasjonsnummer = batch.organisasjonsnummer
+            AND (${missing})
+          RETURNING c.organisasjonsnummer
+        )
+        SELECT batch.organisasjonsnummer, changed.organisasjonsnummer IS NOT NULL AS updated
+        FROM batch
+        LEFT JOIN changed USING (organisasjonsnummer)
+        ORDER BY batch.organisasjonsnummer
+      `,
+      [lastOrgnr, BACKFILL_BATCH_SIZE],
+    );
+
+    if (!result.rows.length) {
+      break;
+    }
+
+    updated += result.rows.filter((row) => row.updated).length;
+    lastOrgnr = result.rows[result.rows.length - 1].organisasjonsnummer;
+    console.log(`Oppdatert ${updated} rader (til og med ${lastOrgnr})`);
+  }
+
+  return updated;
+}
+
+async function main() {
+  const postgresConfig = getPostgresEnvConfig();
+  const tableName = sanitizeIdentifier(postgresConfig.tableName);
+
+  const client = await getPool().connect();
+
+  try {
+    await migrateUp(client, { quiet: true });
+    const updated = await backfillCompanyColumns(client, tableName, { all: process.argv.includes('--all') });
+    console.log(`✅ Fylte typede kolonner for ${updated} selskaper`);
+  } finally {
+    client.release();
+    await closePool();
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('Kunne ikke fylle typede kolonner', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,308 @@
+/**
+ * Styre- og ledelsesnettverk på tvers av selskaper, bygget fra brreg_roles.
+ *
+ * Grafen har to typer noder (selskap og person) og én kant per rolle en person
+ * har i et selskap. Ett "hopp" er et steg selskap -> felles person -> selskap.
+ */
+
+import { PostgresClient, withClient } from './db';
+import { getPostgresEnvConfig, sanitizeIdentifier } from './postgres';
+import { fetchCompaniesByOrgnumre } from './print-postgres-companies';
+
+/** Styreleder, nestleder, styremedlem, varamedlem og daglig leder */
+export const BOARD_ROLE_CODES = ['LEDE', 'NEST', 'MEDL', 'VARA', 'DAGL'];
+
+export const MAX_HOPS = 4;
+const MAX_COMPANY_NODES = 2000;
+
+export interface PersonKey {
+  navn: string;
+  fodselsdato: string | null;
+}
+
+export interface PersonCompanyRole {
+  organisasjonsnummer: string;
+  company_name: string | null;
+  rolle_kode: string;
+  rolle_beskrivelse: string | null;
+  fratraadt: boolean;
+}
+
+export interface GraphNode {
+  id: string;
+  type: 'company' | 'person';
+  label: string;
+  organisasjonsnummer?: string;
+  fodselsdato?: string | null;
+  /** Antall hopp fra utgangspunktet (kun selskaper) */
+  hop?: number;
+}
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+  rolle_kode: string;
+  rolle_beskrivelse: string | null;
+}
+
+export interface BoardNetwork {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  truncated: boolean;
+}
+
+interface RoleHolderRow {
+  organisasjonsnummer: string;
+  holder_navn: string;
+  person_fodselsdato: string | null;
+  rolle_kode: string;
+  rolle_beskrivelse: string | null;
+}
+
+export function companyNodeId(orgnr: string) {
+  return `company:${orgnr}`;
+}
+
+export function personNodeId(person: PersonKey) {
+  return `person:${person.navn}|${person.fodselsdato ?? ''}`;
+}
+
+/**
+ * Hvilke selskaper sitter denne personen i styret/ledelsen for?
+ */
+export async function fetchCompaniesForPerson(person: PersonKey): Promise<PersonCompanyRole[]> {
+  const tableName = sanitizeIdentifier(getPostgresEnvConfig().tableName);
+
+  return withClient(async (client) => {
+    const result = await client.query<PersonCompanyRole>(
+      `
+        SELECT
+          r.organisasjonsnummer,
+          c.navn AS company_name,
+          r.rolle_kode,
+          r.rolle_beskrivelse,
+          r.fratraadt
+        FROM brreg_roles r
+        LEFT JOIN ${tableName} c ON c.organisasjonsnummer = r.organisasjonsnummer
+        WHERE r.holder_type = 'PERSON'
+          AND r.holder_navn = $1
+          AND ($2::date IS NULL OR r.person_fodselsdato = $2::date)
+          AND r.rolle_kode = ANY($3::text[])
+        ORDER BY c.navn, r.organisasjonsnummer
+      `,
+      [person.navn, person.fodselsdato, BOARD_ROLE_CODES],
+    );
+    return result.rows;
+  });
+}
+
+async function fetchPersonsInCompanies(client: PostgresClient, orgnumre: string[]): Promise<RoleHolderRow[]> {
+  const result = await client.query<RoleHolderRow>(
+    `
+      SELECT
+        organisasjonsnummer,
+        holder_navn,
+        to_char(person_fodselsdato, 'YYYY-MM-DD') AS person_fodselsdato,
+        rolle_kode,
+        rolle_beskrivelse
+      FROM brreg_roles
+      WHERE holder_type = 'PERSON'
+        AND holder_navn IS NOT NULL
+        AND NOT fratraadt
+        AND rolle_kode = ANY($2::text[])
+        AND organisasjonsnummer = ANY($1::text[])
+    `,
+    [orgnumre, BOARD_ROLE_CODES],
+  );
+  return result.rows;
+}
+
+async function fetchRolesForPersons(client: PostgresClient, persons: PersonKey[]): Promise<RoleHolderRow[]> {
+  const result = await client.query<RoleHolderRow>(
+    `
+      SELECT
+        r.organisasjonsnummer,
+        r.holder_navn,
+        to_char(r.person_fodselsdato, 'YYYY-MM-DD') AS person_fodselsdato,
+        r.rolle_kode,
+        r.rolle_beskrivelse
+      FROM brreg_roles r
+      JOIN unnest($1::text[], $2::date[]) AS p(navn, fodselsdato)
+        ON r.holder_navn = p.navn
+       AND (p.fodselsdato IS NULL OR r.person_fodselsdato = p.fodselsdato)
+      WHERE r.holder_type = 'PERSON'
+        AND NOT r.fratraadt
+        AND r.rolle_kode = ANY($3::text[])
+    `,
+    [persons.map((p) => p.navn), persons.map((p) => p.fodselsdato), BOARD_ROLE_CODES],
+  );
+  return result.rows;
+}
+
+/**
+ * Bygger nettverket rundt ett eller flere selskaper og/eller personer, opptil maxHops hopp.
+ * Stopper å utvide når grafen passerer MAX_COMPANY_NODES selskaper (truncated = true).
+ */
+export async function buildBoardNetwork(
+  seeds: { orgnumre?: string[]; persons?: PersonKey[] },
+  maxHops = 1,
+): Promise<BoardNetwork> {
+  const hops = Math.max(0, Math.min(MAX_HOPS, Math.floor(maxHops)));
+
+  const companyHops = new Map<string, number>();
+  const persons = new Map<string, PersonKey>();
+  const edges = new Map<string, GraphEdge>();
+  let truncated = false;
+
+  const addRoles = (rows: RoleHolderRow[]) => {
+    for (const row of rows) {
+      const person: PersonKey = { navn: row.holder_navn, fodselsdato: row.person_fodselsdato };
+      const personId = personNodeId(person);
+      persons.set(personId, person);
+      const edge: GraphEdge = {
+        source: personId,
+        target: companyNodeId(row.organisasjonsnummer),
+        rolle_kode: row.rolle_kode,
+        rolle_beskrivelse: row.rolle_beskrivelse,
+      };
+      edges.set(`${edge.source}->${edge.target}:${edge.rolle_kode}`, edge);
+    }
+  };
+
+  await withClient(async (client) => {
+    let frontier = (seeds.orgnumre ?? []).filter(Boolean);
+    for (const orgnr of frontier) {
+      companyHops.set(orgnr, 0);
+    }
+
+    // Personer som utgangspunkt: selskapene deres er hopp 0
+    if (seeds.persons?.length) {
+      const rows = await fetchRolesForPersons(client, seeds.persons);
+      addRoles(rows);
+      for (const row of rows) {
+        if (!companyHops.has(row.organisasjonsnummer)) {
+          companyHops.set(row.organisasjonsnummer, 0);
+          frontier.push(row.organisasjonsnummer);
+        }
+      }
+    }
+
+    for (let hop = 1; hop <= hops + 1 && frontier.length > 0; hop += 1) {
+      const memberRows = await fetchPersonsInCompanies(client, frontier);
+      addRoles(memberRows);
+
+      // Siste runde henter bare styremedlemmene i de ytterste selskapene
+      if (hop > hops) {
+        break;
+      }
+
+      const frontierPersons = new Map<string, PersonKey>();
+      for (const row of memberRows) {
+        const person: PersonKey = { navn: row.holder_navn, fodselsdato: row.person_fodselsdato };
+        frontierPersons.set(personNodeId(person), person);
+      }
+      if (!frontierPersons.size) {
+        break;
+      }
+
+      const personRoles = await fetchRolesForPersons(client, Array.from(frontierPersons.values()));
+      const next: string[] = [];
+      for (const row of personRoles) {
+        if (companyHops.has(row.organisasjonsnummer)) {
+          continue;
+        }
+        if (companyHops.size >= MAX_COMPANY_NODES) {
+          truncated = true;
+          break;
+        }
+        companyHops.set(row.organisasjonsnummer, hop);
+        next.push(row.organisasjonsnummer);
+      }
+      addRoles(personRoles.filter((row) => companyHops.has(row.organisasjonsnummer)));
+      frontier = next;
+    }
+  });
+
+  const companies = await fetchCompaniesByOrgnumre(Array.from(companyHops.keys()));
+  const companyNames = new Map(companies.map((company) => [company.organisasjonsnummer, company.navn]));
+
+  const nodes: GraphNode[] = [
+    ...Array.from(companyHops.entries()).map(([orgnr, hop]) => ({
+      id: companyNodeId(orgnr),
+      type: 'company' as const,
+      label: companyNames.get(orgnr) ?? orgnr,
+      organisasjonsnummer: orgnr,
+      hop,
+    })),
+    ...Array.from(persons.entries()).map(([id, person]) => ({
+      id,
+      type: 'person' as const,
+      label: person.navn,
+      fodselsdato: person.fodselsdato,
+    })),
+  ];
+
+  return {
+    nodes,
+    // Kanter til selskaper utenfor grafen (avkuttet) tas ikke med
+    edges: Array.from(edges.values()).filter((edge) =>
+      companyHops.has(edge.target.slice('company:'.length)),
+    ),
+    truncated,
+  };
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Eksporterer nettverket som GraphML (for Gephi, yEd, Cytoscape m.fl.)
+ */
+export function toGraphMl(network: BoardNetwork): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="type" for="node" attr.name="type" attr.type="string"/>',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="organisasjonsnummer" for="node" attr.name="organisasjonsnummer" attr.type="string"/>',
+    '  <key id="fodselsdato" for="node" attr.name="fodselsdato" attr.type="string"/>',
+    '  <key id="hop" for="node" attr.name="hop" attr.type="int"/>',
+    '  <key id="rolle_kode" for="edge" attr.name="rolle_kode" attr.type="string"/>',
+    '  <key id="rolle_beskrivelse" for="edge" attr.name="rolle_beskrivelse" attr.type="string"/>',
+    '  <graph id="board-network" edgedefault="directed">',
+  ];
+
+  for (const node of network.nodes) {
+    lines.push(`    <node id="${escapeXml(node.id)}">`);
+    lines.push(`      <data key="type">${node.type}</data>`);
+    lines.push(`      <data key="label">${escapeXml(node.label)}</data>`);
+    if (node.organisasjonsnummer) {
+      lines.push(`      <data key="organisasjonsnummer">${node.organisasjonsnummer}</data>`);
+    }
+    if (node.fodselsdato) {
+      lines.push(`      <data key="fodselsdato">${node.fodselsdato}</data>`);
+    }
+    if (typeof node.hop === 'number') {
+      lines.push(`      <data key="hop">${node.hop}</data>`);
+    }
+    lines.push('    </node>');
+  }
+
+  network.edges.forEach((edge, index) => {
+    lines.push(`    <edge id="e${index}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">`);
+    lines.push(`      <data key="rolle_kode">${escapeXml(edge.rolle_kode)}</data>`);
+    if (edge.rolle_beskrivelse) {
+      lines.push(`      <data key="rolle_beskrivelse">${escapeXml(edge.rolle_beskrivelse)}</data>`);
+    }
+    lines.push('    </edge>');
+  });
+
+  lines.push('  </graph>', '</graphml>');
+  return `${lines.join('\n')}\n`;
+}
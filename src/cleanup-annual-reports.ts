@@ -1,10 +1,6 @@
-import { createPostgresClient, getPostgresEnvConfig } from './postgres';
+import { closePool, query } from './db';
 
 async function cleanupAnnualReports() {
-  const config = getPostgresEnvConfig();
-  const client = createPostgresClient(config);
-  await client.connect();
-
   const deleteQuery = `
     DELETE FROM brreg_annual_reports
     WHERE
@@ -15,10 +11,10 @@ async function cleanupAnnualReports() {
       OR data->'documents'->0->>'url' ILIKE 'https://www.brreg.no/bedrift/innsending%'
       OR data->'documents'->0->>'url' NOT ILIKE '%.pdf%'`;
 
-  const result = await client.query(deleteQuery);
+  const result = await query(deleteQuery);
   console.log(`🧹 Deleted ${result.rowCount} invalid annual report rows`);
 
-  await client.end();
+  await closePool();
 }
 
 cleanupAnnualReports().catch((error) => {
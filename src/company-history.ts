@@ -0,0 +1,129 @@
+/**
+ * Endringshistorikk for selskaper (SCD type 2).
+ *
+ * brreg_company_history har én rad per versjon av et selskap med valid_from/valid_to.
+ * Gjeldende versjon har valid_to = NULL. En ny versjon opprettes kun når data faktisk
+ * er endret, og slettede selskaper får sin siste versjon lukket ved slettetidspunktet.
+ */
+
+import { PostgresClient } from './db';
+
+export const HISTORY_TABLE = 'brreg_company_history';
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface CompanyVersionChanges {
+  /** Nye selskaper, eller selskaper som er gjenopprettet etter sletting */
+  created: string[];
+  modified: Array<{ organisasjonsnummer: string; changes: FieldChange[] }>;
+}
+
+/** Felter som endres uten at selskapet er endret */
+const IGNORED_FIELDS = new Set(['_links']);
+
+/**
+ * Lukk gjeldende versjon og opprett en ny for selskaper der data er endret.
+ * Må kjøres i samme transaksjon som upserten, slik at NOW() er lik for valid_to og valid_from.
+ */
+export async function recordCompanyVersions(
+  client: PostgresClient,
+  companiesTable: string,
+  orgnumre: string[],
+): Promise<CompanyVersionChanges> {
+  if (!orgnumre.length) {
+    return { created: [], modified: [] };
+  }
+
+  const closed = await client.query<{ organisasjonsnummer: string; previous: Record<string, unknown>; current: Record<string, unknown> }>(
+    `
+      UPDATE ${HISTORY_TABLE} h
+      SET valid_to = NOW()
+      FROM ${companiesTable} c
+      WHERE h.organisasjonsnummer = c.organisasjonsnummer
+        AND h.valid_to IS NULL
+        AND c.organisasjonsnummer = ANY($1::text[])
+        AND (h.data - '_links') IS DISTINCT FROM (c.data - '_links')
+      RETURNING h.organisasjonsnummer, h.data AS previous, c.data AS current
+    `,
+    [orgnumre],
+  );
+
+  const inserted = await client.query<{ organisasjonsnummer: string }>(
+    `
+      INSERT INTO ${HISTORY_TABLE} (organisasjonsnummer, navn, organisasjonsform_kode, naeringskode1, data, valid_from)
+      SELECT c.organisasjonsnummer, c.navn, c.organisasjonsform_kode, c.naeringskode1, c.data, NOW()
+      FROM ${companiesTable} c
+      WHERE c.organisasjonsnummer = ANY($1::text[])
+        AND NOT EXISTS (
+          SELECT 1 FROM ${HISTORY_TABLE} h
+          WHERE h.organisasjonsnummer = c.organisasjonsnummer AND h.valid_to IS NULL
+        )
+      RETURNING organisasjonsnummer
+    `,
+    [orgnumre],
+  );
+
+  const modified = new Set(closed.rows.map((row) => row.organisasjonsnummer));
+  return {
+    created: inserted.rows.map((row) => row.organisasjonsnummer).filter((orgnr) => !modified.has(orgnr)),
+    modified: closed.rows.map((row) => ({
+      organisasjonsnummer: row.organisasjonsnummer,
+      changes: diffVersions(row.previous, row.current),
+    })),
+  };
+}
+
+/**
+ * Lukk gjeldende versjon når selskapet slettes
+ */
+export async function closeCompanyVersion(client: PostgresClient, organisasjonsnummer: string, closedAt: string) {
+  await client.query(
+    `
+      UPDATE ${HISTORY_TABLE}
+      SET valid_to = GREATEST($2::timestamptz, valid_from)
+      WHERE organisasjonsnummer = $1 AND valid_to IS NULL
+    `,
+    [organisasjonsnummer, closedAt],
+  );
+}
+
+function flatten(value: unknown, prefix: string, target: Map<string, unknown>) {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      if (!prefix && IGNORED_FIELDS.has(key)) {
+        continue;
+      }
+      flatten(child, prefix ? `${prefix}.${key}` : key, target);
+    }
+    return;
+  }
+  // Lister (f.eks. adresselinjer) sammenlignes som én verdi
+  target.set(prefix, value);
+}
+
+/**
+ * Feltvise endringer mellom to versjoner, med nøstede felter som punktum-stier
+ */
+export function diffVersions(previous: Record<string, unknown> | null, current: Record<string, unknown>): FieldChange[] {
+  const before = new Map<string, unknown>();
+  const after = new Map<string, unknown>();
+  if (previous) {
+    flatten(previous, '', before);
+  }
+  flatten(current, '', after);
+
+  const fields = Array.from(new Set([...before.keys(), ...after.keys()])).sort();
+  const changes: FieldChange[] = [];
+  for (const field of fields) {
+    const from = before.has(field) ? before.get(field) : null;
+    const to = after.has(field) ? after.get(field) : null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, from, to });
+    }
+  }
+  return changes;
+}
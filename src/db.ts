@@ -0,0 +1,171 @@
+/**
+ * Felles connection pool for serveren, CLI-scriptene og Vercel-funksjonene
+ *
+ * Poolen opprettes ved første bruk fra getPostgresEnvConfig(). Alle tilkoblinger får
+ * statement_timeout på serversiden, og closePool() venter til utlånte tilkoblinger er
+ * levert tilbake før poolen stenges.
+ *
+ * Miljøvariabler:
+ *   POSTGRES_POOL_MAX                 maks antall tilkoblinger (standard 10, 1 på Vercel)
+ *   POSTGRES_POOL_IDLE_TIMEOUT_MS     hvor lenge en ledig tilkobling beholdes (standard 30 s)
+ *   POSTGRES_STATEMENT_TIMEOUT_MS     statement_timeout per spørring (standard 30 s)
+ */
+
+import { Pool, PoolClient, QueryResultRow } from 'pg';
+
+import { getPostgresEnvConfig, parseSslSetting } from './postgres';
+
+export type PostgresClient = PoolClient;
+
+export interface DatabaseHealth {
+  ok: boolean;
+  latencyMs: number;
+  totalCount: number;
+  idleCount: number;
+  waitingCount: number;
+  error?: string;
+}
+
+// Hver serverløs instans håndterer én forespørsel om gangen, så én tilkobling holder
+const DEFAULT_POOL_MAX = process.env.VERCEL ? 1 : 10;
+const CONNECTION_TIMEOUT_MS = 10000;
+const HEALTH_TIMEOUT_MS = 5000;
+
+let pool: Pool | null = null;
+let closing: Promise<void> | null = null;
+
+export function getPool(): Pool {
+  if (pool) {
+    return pool;
+  }
+
+  const config = getPostgresEnvConfig();
+  const statementTimeout = Number(process.env.POSTGRES_STATEMENT_TIMEOUT_MS ?? '30000');
+
+  pool = new Pool({
+    host: config.host,
+    port: config.port,
+    database: config.database,
+    user: config.user,
+    password: config.password,
+    ssl: parseSslSetting(config.ssl),
+    max: Number(process.env.POSTGRES_POOL_MAX ?? DEFAULT_POOL_MAX),
+    idleTimeoutMillis: Number(process.env.POSTGRES_POOL_IDLE_TIMEOUT_MS ?? '30000'),
+    connectionTimeoutMillis: CONNECTION_TIMEOUT_MS,
+    statement_timeout: statementTimeout,
+    // Klientsiden gir opp litt etter serveren, slik at feilen fra Postgres kommer først
+    query_timeout: statementTimeout + 5000,
+    // CLI-scripts skal kunne avslutte selv om de glemmer å kalle closePool()
+    allowExitOnIdle: true,
+  });
+
+  // En ledig tilkobling som dør (f.eks. ved restart av databasen) skal ikke krasje prosessen
+  pool.on('error', (error) => {
+    console.error('Uventet feil på ledig databasetilkobling:', error.message);
+  });
+
+  return pool;
+}
+
+function toConnectionError(error: unknown): unknown {
+  const err = error as Error;
+  if (err?.message && (err.message.includes('timeout exceeded when trying to connect') || err.message.includes('ETIMEDOUT') || err.message.includes('ECONNREFUSED'))) {
+    return new Error('Kunne ikke koble til databasen. Databasen er sannsynligvis kun tilgjengelig fra EC2. Kjør serveren på EC2 i stedet for lokalt.');
+  }
+  return error;
+}
+
+/**
+ * Lån en tilkobling fra poolen for flere spørringer (eller en transaksjon) og lever den tilbake
+ */
+export async function withClient<T>(run: (client: PostgresClient) => Promise<T>): Promise<T> {
+  let client: PoolClient;
+  try {
+    client = await getPool().connect();
+  } catch (error) {
+    throw toConnectionError(error);
+  }
+
+  // En tilkobling som feilet kan stå midt i en transaksjon eller være brutt, så den kastes i stedet for å gjenbrukes
+  let failure: Error | undefined;
+  try {
+    return await run(client);
+  } catch (error) {
+    failure = error as Error;
+    throw toConnectionError(error);
+  } finally {
+    client.release(failure);
+  }
+}
+
+/**
+ * Kjør run i en transaksjon på én tilkobling fra poolen
+ */
+export async function withTransaction<T>(run: (client: PostgresClient) => Promise<T>): Promise<T> {
+  return withClient(async (client) => {
+    await client.query('BEGIN');
+    try {
+      const result = await run(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw error;
+    }
+  });
+}
+
+/**
+ * Én spørring på en vilkårlig ledig tilkobling
+ */
+export async function query<T extends QueryResultRow = QueryResultRow>(text: string, values: unknown[] = []) {
+  try {
+    return await getPool().query<T>(text, values);
+  } catch (error) {
+    throw toConnectionError(error);
+  }
+}
+
+/**
+ * Sjekk at databasen svarer, med responstid og status for poolen
+ */
+export async function checkDatabaseHealth(): Promise<DatabaseHealth> {
+  const startedAt = Date.now();
+  const status = () => ({
+    latencyMs: Date.now() - startedAt,
+    totalCount: pool?.totalCount ?? 0,
+    idleCount: pool?.idleCount ?? 0,
+    waitingCount: pool?.waitingCount ?? 0,
+  });
+
+  try {
+    await Promise.race([
+      query('SELECT 1'),
+      new Promise<never>((_, reject) => {
+        setTimeout(() => reject(new Error(`Database svarte ikke innen ${HEALTH_TIMEOUT_MS} ms`)), HEALTH_TIMEOUT_MS).unref();
+      }),
+    ]);
+    return { ok: true, ...status() };
+  } catch (error) {
+    return { ok: false, ...status(), error: (error as Error).message };
+  }
+}
+
+/**
+ * Steng poolen. Venter på at utlånte tilkoblinger leveres tilbake; kan kalles flere ganger.
+ */
+export async function closePool(): Promise<void> {
+  if (!pool) {
+    return;
+  }
+  if (!closing) {
+    const current = pool;
+    closing = current.end().finally(() => {
+      if (pool === current) {
+        pool = null;
+      }
+      closing = null;
+    });
+  }
+  return closing;
+}
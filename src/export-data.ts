@@ -0,0 +1,286 @@
+/**
+ * Eksport av hele (filtrerte) datasett som NDJSON, CSV eller XLSX
+ *
+ * Radene leses med en Postgres-cursor (DECLARE/FETCH) og skrives rett til responsen,
+ * så minnebruken er uavhengig av hvor mange rader som eksporteres.
+ */
+
+import { Response } from 'express';
+import ExcelJS from 'exceljs';
+
+import { PostgresClient, withClient } from './db';
+import { buildAnnualReportsQuery, FetchAnnualReportsOptions } from './fetch-annual-reports';
+import { FINANCIAL_COLUMN_NAMES } from './financials';
+import { RATIO_KEYS } from './financial-ratios';
+import { getPostgresEnvConfig, sanitizeIdentifier } from './postgres';
+import {
+  buildCompanyFilterConditions,
+  COMPANY_FIELDS,
+  CompanyFilter,
+  DEFAULT_COMPANY_FIELDS,
+} from './print-postgres-companies';
+
+export type ExportFormat = 'ndjson' | 'csv' | 'xlsx';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['ndjson', 'csv', 'xlsx'];
+
+const FETCH_SIZE = Number(process.env.EXPORT_FETCH_SIZE ?? '1000');
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// BOM slik at Excel leser æ, ø og å riktig
+const BOM = '\uFEFF';
+
+// Maks antall rader per ark i Excel, inkludert overskriftsraden
+const XLSX_MAX_SHEET_ROWS = 1_048_576;
+
+interface ExportWriter {
+  write(row: Record<string, unknown>): Promise<void>;
+  /** Kalles mellom batcher; venter til responsen har tatt unna det som er skrevet */
+  flush(): Promise<void>;
+  end(): Promise<void>;
+}
+
+export function parseExportFormat(value: unknown): ExportFormat | null {
+  if (value === undefined || value === '') {
+    return 'ndjson';
+  }
+  return EXPORT_FORMATS.includes(value as ExportFormat) ? (value as ExportFormat) : null;
+}
+
+function toCell(value: unknown): string | number | boolean | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return value as string | number | boolean;
+}
+
+function escapeCsv(value: unknown): string {
+  const cell = toCell(value);
+  if (cell === null) {
+    return '';
+  }
+  const text = String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Skriv til responsen og vent på drain når bufferen er full (eller til klienten kobler fra)
+ */
+function writeChunk(res: Response, chunk: string): Promise<void> {
+  return res.write(chunk) ? Promise.resolve() : waitForDrain(res);
+}
+
+function waitForDrain(res: Response): Promise<void> {
+  if (!res.writableNeedDrain || res.destroyed) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.once('drain', done);
+    res.once('close', done);
+  });
+}
+
+function createWriter(format: ExportFormat, res: Response, columns: string[]): ExportWriter {
+  if (format === 'ndjson') {
+    return {
+      write: (row) => writeChunk(res, `${JSON.stringify(Object.fromEntries(columns.map((column) => [column, row[column]])))}\n`),
+      flush: async () => {},
+      end: async () => {
+        res.end();
+      },
+    };
+  }
+
+  if (format === 'csv') {
+    let started = false;
+    return {
+      write: async (row) => {
+        if (!started) {
+          started = true;
+          await writeChunk(res, `${BOM}${columns.join(',')}\r\n`);
+        }
+        await writeChunk(res, `${columns.map((column) => escapeCsv(row[column])).join(',')}\r\n`);
+      },
+      flush: async () => {},
+      end: async () => {
+        if (!started) {
+          res.write(`${BOM}${columns.join(',')}\r\n`);
+        }
+        res.end();
+      },
+    };
+  }
+
+  // Flere rader enn Excel tillater i ett ark fordeles på data, data-2, data-3, ...
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useSharedStrings: false });
+  const addSheet = (index: number) => {
+    const sheet = workbook.addWorksheet(index === 1 ? 'data' : `data-${index}`);
+    sheet.columns = columns.map((column) => ({ header: column, key: column }));
+    return sheet;
+  };
+  let sheetIndex = 1;
+  let sheet = addSheet(sheetIndex);
+  let sheetRows = 0;
+  return {
+    write: async (row) => {
+      if (sheetRows === XLSX_MAX_SHEET_ROWS - 1) {
+        sheet.commit();
+        sheet = addSheet(++sheetIndex);
+        sheetRows = 0;
+      }
+      sheet.addRow(columns.map((column) => toCell(row[column]))).commit();
+      sheetRows++;
+    },
+    // ExcelJS skriver til responsen uten å se på returverdien av write(), så vi venter på drain selv.
+    // setImmediate gir zip-komprimeringen tid til å skrive ut det som er lagt i kø først.
+    flush: async () => {
+      await new Promise((resolve) => setImmediate(resolve));
+      await waitForDrain(res);
+    },
+    end: async () => {
+      sheet.commit();
+      await workbook.commit();
+    },
+  };
+}
+
+/**
+ * Les resultatet av sql med en cursor og kall onRows for hver batch. Stopper hvis onRows returnerer false.
+ */
+async function streamQuery(
+  client: PostgresClient,
+  sql: string,
+  values: unknown[],
+  onRows: (rows: Record<string, unknown>[]) => Promise<boolean>,
+) {
+  await client.query('BEGIN READ ONLY');
+  try {
+    await client.query(`DECLARE export_cursor NO SCROLL CURSOR FOR ${sql}`, values);
+    while (true) {
+      const result = await client.query<Record<string, unknown>>(`FETCH ${FETCH_SIZE} FROM export_cursor`);
+      if (!result.rows.length || !(await onRows(result.rows))) {
+        break;
+      }
+    }
+    await client.query('CLOSE export_cursor');
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  }
+}
+
+async function sendExport(
+  res: Response,
+  format: ExportFormat,
+  name: string,
+  columns: string[],
+  sql: string,
+  values: unknown[],
+) {
+  const filename = `${name}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  await withClient(async (client) => {
+    let writer: ExportWriter | null = null;
+    let rows = 0;
+
+    // Headere settes først når spørringen har gitt svar, slik at feil før det kan bli en vanlig 500
+    const start = (): ExportWriter => {
+      res.setHeader('Content-Type', CONTENT_TYPES[format]);
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      return createWriter(format, res, columns);
+    };
+
+    await streamQuery(client, sql, values, async (batch) => {
+      writer ??= start();
+      for (const row of batch) {
+        await writer.write(row);
+      }
+      await writer.flush();
+      rows += batch.length;
+      // Stopp hvis klienten har avbrutt nedlastingen
+      return !res.destroyed;
+    });
+
+    writer ??= start();
+    if (res.destroyed) {
+      console.warn(`Eksport av ${filename} avbrutt av klienten etter ${rows} rader`);
+      return;
+    }
+    await writer.end();
+    console.log(`Eksporterte ${rows} rader til ${filename}`);
+  });
+}
+
+/**
+ * Eksporter selskaper med samme filtre og felter som GET /api/companies, sortert på organisasjonsnummer
+ */
+export async function exportCompanies(
+  res: Response,
+  format: ExportFormat,
+  options: { filter?: CompanyFilter; fields?: string[]; includeDeleted?: boolean } = {},
+) {
+  const tableName = sanitizeIdentifier(getPostgresEnvConfig().tableName);
+  const fields = Array.from(new Set(['organisasjonsnummer', ...(options.fields ?? DEFAULT_COMPANY_FIELDS)]));
+  const values: unknown[] = [];
+  const conditions = buildCompanyFilterConditions(options.filter ?? {}, values);
+  if (!options.includeDeleted) {
+    conditions.push('deleted_at IS NULL');
+  }
+
+  const sql = `
+    SELECT ${fields.map((field) => `${COMPANY_FIELDS[field]} AS ${field}`).join(', ')}
+    FROM ${tableName}
+    ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+    ORDER BY organisasjonsnummer
+  `;
+
+  await sendExport(res, format, 'companies', fields, sql, values);
+}
+
+/**
+ * Eksporter årsregnskap med samme filtre som GET /api/annual-reports
+ */
+export async function exportAnnualReports(
+  res: Response,
+  format: ExportFormat,
+  organisasjonsnummer?: string,
+  options: FetchAnnualReportsOptions = {},
+) {
+  const { sql, params } = buildAnnualReportsQuery(organisasjonsnummer, options);
+  await sendExport(
+    res,
+    format,
+    'annual-reports',
+    [
+      'organisasjonsnummer',
+      'company_name',
+      'ar',
+      'regnskapsaar',
+      'fra_dato',
+      'til_dato',
+      'scraped_at',
+      ...FINANCIAL_COLUMN_NAMES,
+      ...RATIO_KEYS,
+      'data',
+    ],
+    sql,
+    params,
+  );
+}
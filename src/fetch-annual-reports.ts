@@ -1,85 +1,193 @@
-import { createPostgresClient, getPostgresEnvConfig } from './postgres';
+import { query } from './db';
+import { FINANCIAL_COLUMN_NAMES, FINANCIALS_TABLE, FinancialFigures } from './financials';
+import { FINANCIAL_RATIOS_TABLE, RATIO_KEYS, RatioKey } from './financial-ratios';
 
 export interface AnnualReportRow {
   organisasjonsnummer: string;
   ar: number;
+  fra_dato: string;
+  til_dato: string;
+  regnskapsaar: string;
   data: Record<string, unknown>;
   scraped_at: Date | string | null;
 }
 
 export interface AnnualReportWithCompany {
   organisasjonsnummer: string;
+  /** Calendar year the fiscal period ends in */
   ar: number;
+  /** Fiscal period as YYYY-MM-DD */
+  fra_dato: string;
+  til_dato: string;
+  /** "2023", "2022/2023" for a non-calendar fiscal year, plus the dates when the period is not 12 months */
+  regnskapsaar: string;
   data: Record<string, unknown>;
   scraped_at: Date | string | null;
   company_name?: string | null;
+  /** Nøkkeltall fra brreg_financials, null hvis regnskapet ikke har noen */
+  financials: FinancialFigures | null;
+  /** Forholdstall fra brreg_financial_ratios, null hvis de ikke er beregnet */
+  ratios: Record<RatioKey, number | null> | null;
+  /** Hvorfor et forholdstall er null */
+  ratio_mangler: Partial<Record<RatioKey, string>> | null;
 }
 
-export async function fetchAnnualReportsFromPostgres(
-  organisasjonsnummer?: string,
-): Promise<AnnualReportWithCompany[]> {
-  const postgresConfig = getPostgresEnvConfig();
-  const client = createPostgresClient(postgresConfig);
-
-  try {
-    // Legg til timeout på connect
-    const connectPromise = client.connect();
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => reject(new Error('Database connection timeout after 10 seconds')), 10000);
-    });
-    
-    await Promise.race([connectPromise, timeoutPromise]);
-
-    let query = `
-      SELECT 
-        ar.organisasjonsnummer,
-        ar.ar,
-        ar.data,
-        ar.scraped_at,
-        c.navn AS company_name
-      FROM brreg_annual_reports ar
-      LEFT JOIN brreg_companies c ON ar.organisasjonsnummer = c.organisasjonsnummer
-    `;
-
-    const params: unknown[] = [];
-
-    if (organisasjonsnummer) {
-      query += ` WHERE ar.organisasjonsnummer = $1`;
-      params.push(organisasjonsnummer);
+export interface FetchAnnualReportsOptions {
+  /** Include reports for companies tombstoned by a SLETTET update */
+  includeDeleted?: boolean;
+  /** ar or a ratio key, prefixed with - for descending order; default is orgnr, newest period first */
+  sort?: string;
+  /** Inclusive bounds per ratio; reports without the ratio are excluded */
+  ratioFilters?: Partial<Record<RatioKey, { min?: number; max?: number }>>;
+}
+
+export class AnnualReportQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnnualReportQueryError';
+  }
+}
+
+const SORT_KEYS: string[] = ['ar', ...RATIO_KEYS];
+
+function parseBound(query: Record<string, unknown>, name: string): number | undefined {
+  const value = query[name];
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (typeof value !== 'string' || !Number.isFinite(parsed)) {
+    throw new AnnualReportQueryError(`${name} må være et tall`);
+  }
+  return parsed;
+}
+
+/**
+ * Read includeDeleted, sort and min_<ratio>/max_<ratio> from a request query string
+ */
+export function parseAnnualReportsQuery(query: Record<string, unknown>): FetchAnnualReportsOptions {
+  const options: FetchAnnualReportsOptions = { includeDeleted: query.includeDeleted === 'true' };
+
+  if (typeof query.sort === 'string' && query.sort) {
+    if (!SORT_KEYS.includes(query.sort.replace(/^-/, ''))) {
+      throw new AnnualReportQueryError(`sort må være en av ${SORT_KEYS.join(', ')} (prefiks - for synkende)`);
     }
+    options.sort = query.sort;
+  }
+
+  for (const key of RATIO_KEYS) {
+    const min = parseBound(query, `min_${key}`);
+    const max = parseBound(query, `max_${key}`);
+    if (min !== undefined || max !== undefined) {
+      options.ratioFilters = { ...options.ratioFilters, [key]: { min, max } };
+    }
+  }
+
+  return options;
+}
+
+/**
+ * SQL for annual reports with the company name and key figures; shared by the list endpoint and the export
+ */
+export function buildAnnualReportsQuery(
+  organisasjonsnummer?: string,
+  options: FetchAnnualReportsOptions = {},
+): { sql: string; params: unknown[] } {
+  let sql = `
+    SELECT 
+      ar.organisasjonsnummer,
+      ar.ar,
+      to_char(ar.fra_dato, 'YYYY-MM-DD') AS fra_dato,
+      to_char(ar.til_dato, 'YYYY-MM-DD') AS til_dato,
+      ar.regnskapsaar,
+      ar.data,
+      ar.scraped_at,
+      c.navn AS company_name,
+      f.organisasjonsnummer IS NOT NULL AS has_financials,
+      ${FINANCIAL_COLUMN_NAMES.map((column) => `f.${column}::float8 AS ${column}`).join(',\n      ')},
+      q.organisasjonsnummer IS NOT NULL AS has_ratios,
+      ${RATIO_KEYS.map((key) => `q.${key}`).join(',\n      ')},
+      q.mangler AS ratio_mangler
+    FROM brreg_annual_reports ar
+    LEFT JOIN brreg_companies c ON ar.organisasjonsnummer = c.organisasjonsnummer
+    LEFT JOIN ${FINANCIALS_TABLE} f
+      ON f.organisasjonsnummer = ar.organisasjonsnummer AND f.fra_dato = ar.fra_dato AND f.til_dato = ar.til_dato
+    LEFT JOIN ${FINANCIAL_RATIOS_TABLE} q
+      ON q.organisasjonsnummer = ar.organisasjonsnummer AND q.fra_dato = ar.fra_dato AND q.til_dato = ar.til_dato
+  `;
+
+  const params: unknown[] = [];
+  const conditions: string[] = [];
+
+  if (organisasjonsnummer) {
+    params.push(organisasjonsnummer);
+    conditions.push(`ar.organisasjonsnummer = $${params.length}`);
+  }
+
+  if (!options.includeDeleted) {
+    // Reports without a matching company row are kept
+    conditions.push('c.deleted_at IS NULL');
+  }
 
-    query += ` ORDER BY ar.organisasjonsnummer, ar.ar DESC`;
-
-    // Legg til timeout på query
-    const queryPromise = client.query<AnnualReportRow & { company_name: string | null }>(
-      query,
-      params,
-    );
-    const queryTimeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => reject(new Error('Database query timeout after 30 seconds')), 30000);
-    });
-
-    const result = await Promise.race([queryPromise, queryTimeoutPromise]);
-
-    return result.rows.map((row) => ({
-      organisasjonsnummer: row.organisasjonsnummer,
-      ar: row.ar,
-      data: row.data,
-      scraped_at: row.scraped_at,
-      company_name: row.company_name,
-    }));
-  } catch (error) {
-    const err = error as Error;
-    if (err.message.includes('timeout') || err.message.includes('ETIMEDOUT') || err.message.includes('ECONNREFUSED')) {
-      throw new Error('Kunne ikke koble til databasen. Databasen er sannsynligvis kun tilgjengelig fra EC2. Kjør serveren på EC2 i stedet for lokalt.');
+  for (const [key, bounds] of Object.entries(options.ratioFilters ?? {})) {
+    if (bounds?.min !== undefined) {
+      params.push(bounds.min);
+      conditions.push(`q.${key} >= $${params.length}`);
     }
-    throw error;
-  } finally {
-    try {
-      await client.end();
-    } catch (e) {
-      // Ignore errors when closing connection
+    if (bounds?.max !== undefined) {
+      params.push(bounds.max);
+      conditions.push(`q.${key} <= $${params.length}`);
     }
   }
+
+  if (conditions.length) {
+    sql += ` WHERE ${conditions.join(' AND ')}`;
+  }
+
+  const sortKey = options.sort?.replace(/^-/, '');
+  if (sortKey && SORT_KEYS.includes(sortKey)) {
+    const direction = options.sort?.startsWith('-') ? 'DESC' : 'ASC';
+    // ar sorts on the period end so that several periods ending in the same year stay in order
+    const sortColumn = sortKey === 'ar' ? `ar.til_dato ${direction}, ar.fra_dato` : `q.${sortKey}`;
+    sql += ` ORDER BY ${sortColumn} ${direction} NULLS LAST, ar.organisasjonsnummer, ar.til_dato DESC, ar.fra_dato DESC`;
+  } else {
+    sql += ` ORDER BY ar.organisasjonsnummer, ar.til_dato DESC, ar.fra_dato DESC`;
+  }
+
+  return { sql, params };
 }
 
+export async function fetchAnnualReportsFromPostgres(
+  organisasjonsnummer?: string,
+  options: FetchAnnualReportsOptions = {},
+): Promise<AnnualReportWithCompany[]> {
+  const { sql, params } = buildAnnualReportsQuery(organisasjonsnummer, options);
+
+  // Tilkobling og timeouts håndteres av poolen i db.ts
+  const result = await query<
+    AnnualReportRow & {
+      company_name: string | null;
+      has_financials: boolean;
+      has_ratios: boolean;
+      ratio_mangler: Partial<Record<RatioKey, string>> | null;
+    } & FinancialFigures
+  >(sql, params);
+
+  return result.rows.map((row) => ({
+    organisasjonsnummer: row.organisasjonsnummer,
+    ar: row.ar,
+    fra_dato: row.fra_dato,
+    til_dato: row.til_dato,
+    regnskapsaar: row.regnskapsaar,
+    data: row.data,
+    scraped_at: row.scraped_at,
+    company_name: row.company_name,
+    financials: row.has_financials
+      ? Object.fromEntries(FINANCIAL_COLUMN_NAMES.map((column) => [column, row[column]]))
+      : null,
+    ratios: row.has_ratios
+      ? (Object.fromEntries(RATIO_KEYS.map((key) => [key, row[key]])) as Record<RatioKey, number | null>)
+      : null,
+    ratio_mangler: row.has_ratios ? row.ratio_mangler : null,
+  }));
+}
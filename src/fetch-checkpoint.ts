@@ -0,0 +1,223 @@
+/**
+ * Gjenopptakbare sjekkpunkter for henting av enheter.
+ *
+ * Hver henting skriver til en append-only NDJSON-journal (én enhet per linje) og et
+ * manifest som skrives atomisk (temp-fil + rename). Manifestet angir hvor mange bytes
+ * av journalen som er bekreftet, siste side og neste lenke. Org.numrene som allerede
+ * er behandlet er nøyaktig enhetene i den bekreftede delen av journalen.
+ *
+ * Krasjer prosessen mellom journal-append og manifest, kuttes den ubekreftede halen
+ * av journalen ved neste oppstart, slik at vi gjenopptar nøyaktig der vi stoppet.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { chain } from 'stream-chain';
+import { parser } from 'stream-json';
+import { streamArray } from 'stream-json/streamers/StreamArray';
+
+import { Enhet } from './types';
+
+export interface CheckpointManifest {
+  /** Antall bytes av journalen som er bekreftet skrevet */
+  journalBytes: number;
+  /** Antall enheter i den bekreftede delen av journalen */
+  processedCount: number;
+  /** Siste fullførte side (kun paginert henting) */
+  lastPage: number | null;
+  /** Neste side som skal hentes (kun paginert henting) */
+  nextLink: string | null;
+  /** Ferdig hentede partisjoner (kun partisjonert henting) */
+  completedPartitions: string[];
+  updatedAt: string;
+}
+
+export class FetchCheckpoint {
+  private readonly dir: string;
+  private readonly journalFile: string;
+  private readonly manifestFile: string;
+  private manifest: CheckpointManifest;
+
+  constructor(baseDir: string, name: string) {
+    this.dir = path.join(baseDir, 'checkpoints', name);
+    this.journalFile = path.join(this.dir, 'journal.ndjson');
+    this.manifestFile = path.join(this.dir, 'manifest.json');
+    this.manifest = this.loadManifest();
+  }
+
+  get state(): CheckpointManifest {
+    return { ...this.manifest };
+  }
+
+  /**
+   * Finnes det en påbegynt henting å gjenoppta?
+   */
+  hasProgress(): boolean {
+    return (
+      this.manifest.processedCount > 0 ||
+      this.manifest.nextLink !== null ||
+      this.manifest.completedPartitions.length > 0
+    );
+  }
+
+  private loadManifest(): CheckpointManifest {
+    const empty: CheckpointManifest = {
+      journalBytes: 0,
+      processedCount: 0,
+      lastPage: null,
+      nextLink: null,
+      completedPartitions: [],
+      updatedAt: new Date().toISOString(),
+    };
+
+    if (!fs.existsSync(this.manifestFile)) {
+      return empty;
+    }
+
+    const stored = JSON.parse(fs.readFileSync(this.manifestFile, 'utf-8')) as CheckpointManifest;
+    const manifest: CheckpointManifest = { ...stored, completedPartitions: stored.completedPartitions ?? [] };
+
+    // Kutt bort eventuell ubekreftet hale fra et avbrutt append
+    if (fs.existsSync(this.journalFile) && fs.statSync(this.journalFile).size > manifest.journalBytes) {
+      fs.truncateSync(this.journalFile, manifest.journalBytes);
+    }
+
+    return manifest;
+  }
+
+  /**
+   * Legg til enheter i journalen og bekreft dem i manifestet
+   */
+  async append(
+    enheter: Enhet[],
+    progress: { lastPage?: number | null; nextLink?: string | null; completedPartition?: string } = {}
+  ): Promise<void> {
+    if (!fs.existsSync(this.dir)) {
+      fs.mkdirSync(this.dir, { recursive: true });
+    }
+
+    let bytes = 0;
+    if (enheter.length > 0) {
+      const chunk = enheter.map(enhet => JSON.stringify(enhet)).join('\n') + '\n';
+      const handle = await fs.promises.open(this.journalFile, 'a');
+      try {
+        await handle.write(chunk);
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+      bytes = Buffer.byteLength(chunk);
+    }
+
+    await this.writeManifest({
+      journalBytes: this.manifest.journalBytes + bytes,
+      processedCount: this.manifest.processedCount + enheter.length,
+      lastPage: progress.lastPage !== undefined ? progress.lastPage : this.manifest.lastPage,
+      nextLink: progress.nextLink !== undefined ? progress.nextLink : this.manifest.nextLink,
+      completedPartitions: progress.completedPartition
+        ? [...this.manifest.completedPartitions, progress.completedPartition]
+        : this.manifest.completedPartitions,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  private async writeManifest(manifest: CheckpointManifest): Promise<void> {
+    const tempFile = `${this.manifestFile}.tmp`;
+    const handle = await fs.promises.open(tempFile, 'w');
+    try {
+      await handle.write(JSON.stringify(manifest, null, 2));
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.promises.rename(tempFile, this.manifestFile);
+    this.manifest = manifest;
+  }
+
+  /**
+   * Les enhetene i den bekreftede delen av journalen
+   */
+  async *readJournal(): AsyncGenerator<Enhet> {
+    if (!fs.existsSync(this.journalFile) || this.manifest.journalBytes === 0) {
+      return;
+    }
+
+    const lines = readline.createInterface({
+      input: fs.createReadStream(this.journalFile, { end: this.manifest.journalBytes - 1 }),
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of lines) {
+      if (line.trim()) {
+        yield JSON.parse(line) as Enhet;
+      }
+    }
+  }
+
+  /**
+   * Organisasjonsnumre som allerede er hentet og bekreftet
+   */
+  async loadProcessedOrgnumre(): Promise<Set<string>> {
+    const processed = new Set<string>();
+    for await (const enhet of this.readJournal()) {
+      processed.add(enhet.organisasjonsnummer);
+    }
+    return processed;
+  }
+
+  /**
+   * Skriv journalen som en JSON-array til targetFile (atomisk).
+   * Med baseFile flettes enheter derfra inn, men enheter i journalen vinner.
+   */
+  async materialize(targetFile: string, baseFile?: string): Promise<number> {
+    const journalOrgnumre = await this.loadProcessedOrgnumre();
+    const tempFile = `${targetFile}.tmp`;
+    const writer = fs.createWriteStream(tempFile);
+    let count = 0;
+
+    const write = async (enhet: Enhet) => {
+      const entry = `${count === 0 ? '[\n  ' : ',\n  '}${JSON.stringify(enhet)}`;
+      count += 1;
+      if (!writer.write(entry)) {
+        await new Promise<void>(resolve => writer.once('drain', () => resolve()));
+      }
+    };
+
+    if (baseFile && fs.existsSync(baseFile)) {
+      const basePipeline = chain([fs.createReadStream(baseFile), parser(), streamArray()]);
+      for await (const data of basePipeline as AsyncIterable<{ value: Enhet }>) {
+        if (data.value?.organisasjonsnummer && !journalOrgnumre.has(data.value.organisasjonsnummer)) {
+          await write(data.value);
+        }
+      }
+    }
+
+    for await (const enhet of this.readJournal()) {
+      await write(enhet);
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      writer.on('error', reject);
+      writer.end(count === 0 ? '[]\n' : '\n]\n', () => resolve());
+    });
+    await fs.promises.rename(tempFile, targetFile);
+
+    return count;
+  }
+
+  /**
+   * Fjern sjekkpunktet når hentingen er fullført og materialisert
+   */
+  clear(): void {
+    fs.rmSync(this.dir, { recursive: true, force: true });
+    this.manifest = {
+      journalBytes: 0,
+      processedCount: 0,
+      lastPage: null,
+      nextLink: null,
+      completedPartitions: [],
+      updatedAt: new Date().toISOString(),
+    };
+  }
+}
@@ -10,7 +10,7 @@
  * for informasjon om bulk downloads som kan være raskere for initial import.
  */
 
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { AxiosResponse } from 'axios';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as zlib from 'zlib';
@@ -18,13 +18,22 @@ import { pipeline as streamPipeline } from 'stream/promises';
 import { chain } from 'stream-chain';
 import { parser } from 'stream-json';
 import { streamArray } from 'stream-json/streamers/StreamArray';
-import { Enhet, Oppdatering, ApiResponse } from './types';
+import { Enhet, Oppdatering, ApiResponse, SlettetEnhet, RollerResponse } from './types';
+import { createHttpClient, HttpClient, logHttpMetrics } from './http-client';
+import { FetchCheckpoint } from './fetch-checkpoint';
+import { logValidationSummary, validateRecord } from './validation';
+import { CrawlResult, PartitionedCrawler, PartitionFilter } from './partitioned-crawler';
 
 const BRREG_API_BASE = 'https://data.brreg.no/enhetsregisteret/api';
 const OUTPUT_DIR = path.join(__dirname, '../data');
 const COMPANIES_FILE = path.join(OUTPUT_DIR, 'companies.json');
 const ORGNUMMER_FILE = path.join(OUTPUT_DIR, 'organisasjonsnumre.json');
 const BULK_GZIP_FILE = path.join(OUTPUT_DIR, 'enheter-bulk.json.gz');
+const UNDERENHETER_FILE = path.join(OUTPUT_DIR, 'underenheter.json');
+const UNDERENHETER_GZIP_FILE = path.join(OUTPUT_DIR, 'underenheter-bulk.json.gz');
+const DELTA_FILE = path.join(OUTPUT_DIR, 'companies-delta.json');
+const DELETED_FILE = path.join(OUTPUT_DIR, 'companies-deleted.json');
+const UPDATE_CURSOR_FILE = path.join(OUTPUT_DIR, 'oppdateringer-cursor.json');
 const PAGINATION_PAGE_SIZE = 1000;
 const MAX_PAGINATION_RETRIES = 5;
 
@@ -35,15 +44,28 @@ class PaginationLimitError extends Error {
   }
 }
 
-// Rate limiting: maks 10 requests per sekund
-const RATE_LIMIT_DELAY = 100; // ms mellom requests
+// Rate limiting (maks 10 requests per sekund), retry og backoff håndteres av http-client.
+// Denne pausen brukes kun mellom forsøk i pagineringsløkkene etter at klienten har gitt opp.
+const ERROR_RETRY_DELAY = 500; // ms
+
+/**
+ * Posisjon i oppdateringsstrømmen fra /oppdateringer/enheter.
+ * oppdateringsid foretrekkes; dato brukes kun før første kjøring.
+ */
+interface UpdateCursor {
+  oppdateringsid: number | null;
+  dato: string | null;
+  oppdatert: string;
+  /** Endrede enheter som ikke kunne hentes (timeout, 5xx); hentes på nytt ved neste kjøring */
+  retry?: string[];
+}
 
 class BrregFetcher {
-  private client: AxiosInstance;
+  private client: HttpClient;
   private delay: number;
 
-  constructor(rateLimitDelay: number = RATE_LIMIT_DELAY) {
-    this.client = axios.create({
+  constructor(errorRetryDelay: number = ERROR_RETRY_DELAY) {
+    this.client = createHttpClient({
       baseURL: BRREG_API_BASE,
       timeout: 30000,
       headers: {
@@ -51,11 +73,11 @@ class BrregFetcher {
         'User-Agent': 'BR-register/1.0'
       }
     });
-    this.delay = rateLimitDelay;
+    this.delay = errorRetryDelay;
   }
 
   /**
-   * Vent mellom requests for å unngå rate limiting
+   * Vent før nytt forsøk etter feil
    */
   private async sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
@@ -94,7 +116,6 @@ class BrregFetcher {
         // Sjekk om det er flere sider
         if (data._links?.next) {
           page++;
-          await this.sleep(this.delay);
         } else {
           hasMore = false;
         }
@@ -103,7 +124,7 @@ class BrregFetcher {
           hasMore = false;
         } else {
           console.error(`Feil ved henting av side ${page}:`, error.message);
-          await this.sleep(this.delay * 5); // Vent litt lenger ved feil
+          await this.sleep(this.delay);
         }
       }
     }
@@ -112,65 +133,301 @@ class BrregFetcher {
   }
 
   /**
-   * Hent detaljert informasjon om en enkelt bedrift
+   * Hent alle oppdateringer nyere enn cursoren.
+   * Bruker oppdateringsid som cursor i stedet for sidetall, slik at vi ikke treffer
+   * paginerings-grensen på 10 000 oppføringer.
    */
-  async fetchEnhet(organisasjonsnummer: string): Promise<Enhet | null> {
+  async fetchUpdatesSince(cursor: UpdateCursor): Promise<{ oppdateringer: Oppdatering[]; cursor: UpdateCursor }> {
+    const oppdateringer: Oppdatering[] = [];
+    let lastId = cursor.oppdateringsid;
+    let lastDato = cursor.dato;
+    let retries = 0;
+
+    while (true) {
+      const params = lastId !== null
+        ? `oppdateringsid=${lastId + 1}`
+        : `dato=${encodeURIComponent(lastDato ?? new Date().toISOString())}`;
+
+      try {
+        const response = await this.client.get<ApiResponse<Oppdatering>>(
+          `/oppdateringer/enheter?${params}&page=0&size=${PAGINATION_PAGE_SIZE}`
+        );
+
+        const embedded = response.data._embedded;
+        const page = embedded?.oppdaterteEnheter || embedded?.oppdateringer || [];
+
+        if (page.length === 0) {
+          break;
+        }
+
+        for (const oppdatering of page) {
+          // Cursoren flyttes også forbi oppdateringer som havner i karantene
+          if (validateRecord('oppdatering', oppdatering)) {
+            oppdateringer.push(oppdatering);
+          }
+          if (typeof oppdatering.oppdateringsid === 'number') {
+            lastId = lastId === null ? oppdatering.oppdateringsid : Math.max(lastId, oppdatering.oppdateringsid);
+          }
+          lastDato = oppdatering.dato || oppdatering.tidspunkt || lastDato;
+        }
+
+        console.log(`Hentet ${page.length} oppdateringer, totalt ${oppdateringer.length} (siste oppdateringsid: ${lastId ?? 'ukjent'})`);
+
+        // Uten oppdateringsid kan vi ikke flytte cursoren videre på en trygg måte
+        if (page.length < PAGINATION_PAGE_SIZE || lastId === null) {
+          break;
+        }
+
+        retries = 0;
+      } catch (error: any) {
+        retries += 1;
+        console.error(`Feil ved henting av oppdateringer (${params}):`, error.message);
+        if (retries >= MAX_PAGINATION_RETRIES) {
+          throw new Error(`Ga opp henting av oppdateringer etter ${retries} forsøk: ${error.message}`);
+        }
+        await this.sleep(this.delay);
+      }
+    }
+
+    return {
+      oppdateringer,
+      cursor: {
+        oppdateringsid: lastId,
+        dato: lastDato,
+        oppdatert: new Date().toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Les lagret cursor for inkrementell synkronisering
+   */
+  loadUpdateCursor(): UpdateCursor | null {
+    if (!fs.existsSync(UPDATE_CURSOR_FILE)) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(UPDATE_CURSOR_FILE, 'utf-8')) as UpdateCursor;
+  }
+
+  /**
+   * Lagre cursor for inkrementell synkronisering
+   */
+  async saveUpdateCursor(cursor: UpdateCursor): Promise<void> {
+    if (!fs.existsSync(OUTPUT_DIR)) {
+      fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+    }
+
+    // Skriv til temp-fil først slik at et avbrudd ikke etterlater en halvskrevet cursor
+    const tempFile = `${UPDATE_CURSOR_FILE}.tmp`;
+    fs.writeFileSync(tempFile, JSON.stringify(cursor, null, 2), 'utf-8');
+    fs.renameSync(tempFile, UPDATE_CURSOR_FILE);
+    console.log(`Lagret cursor (oppdateringsid ${cursor.oppdateringsid ?? 'ukjent'}) til ${UPDATE_CURSOR_FILE}`);
+  }
+
+  /**
+   * Hent kun enheter som er endret siden forrige kjøring og lagre dem i delta-filen
+   */
+  async fetchIncrementalUpdates(since?: string): Promise<{ changed: number; deleted: number }> {
+    const storedCursor = this.loadUpdateCursor();
+    const cursor: UpdateCursor = storedCursor ?? {
+      oppdateringsid: null,
+      dato: since ?? new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(),
+      oppdatert: new Date().toISOString(),
+    };
+
+    console.log(
+      storedCursor
+        ? `Fortsetter fra oppdateringsid ${cursor.oppdateringsid ?? '-'} (dato ${cursor.dato ?? '-'})`
+        : `Ingen lagret cursor, henter oppdateringer fra ${cursor.dato}`
+    );
+
+    const { oppdateringer, cursor: nextCursor } = await this.fetchUpdatesSince(cursor);
+
+    // Behold kun siste oppdatering per organisasjonsnummer
+    const latest = new Map<string, Oppdatering>();
+    for (const oppdatering of oppdateringer) {
+      latest.set(oppdatering.organisasjonsnummer, oppdatering);
+    }
+
+    const changedOrgnumre: string[] = [];
+    const deleted: SlettetEnhet[] = [];
+    for (const oppdatering of latest.values()) {
+      if (oppdatering.endringstype === 'SLETTET') {
+        deleted.push({
+          organisasjonsnummer: oppdatering.organisasjonsnummer,
+          slettetTidspunkt: oppdatering.dato || oppdatering.tidspunkt || new Date().toISOString(),
+        });
+      } else {
+        changedOrgnumre.push(oppdatering.organisasjonsnummer);
+      }
+    }
+
+    console.log(`${latest.size} enheter er oppdatert, henter ${changedOrgnumre.length} på nytt og markerer ${deleted.length} som slettet`);
+
+    // Enheter som feilet forrige gang hentes på nytt, med mindre de er endret eller slettet siden
+    const retry = (storedCursor?.retry ?? []).filter(orgnr => !latest.has(orgnr));
+    if (retry.length > 0) {
+      console.log(`Henter ${retry.length} enheter som feilet ved forrige kjøring på nytt`);
+    }
+
+    const companies: Enhet[] = [];
+    const failed: string[] = [];
+    for (const orgnr of [...retry, ...changedOrgnumre]) {
+      try {
+        const company = await this.fetchEnhet(orgnr, { throwOnError: true });
+        if (company) {
+          companies.push(company);
+        }
+      } catch {
+        failed.push(orgnr);
+      }
+    }
+
+    if (failed.length > 0) {
+      console.warn(`${failed.length} enheter kunne ikke hentes og prøves igjen ved neste kjøring`);
+    }
+
+    const { changed, removed } = this.appendDelta(companies, deleted);
+    console.log(`Lagret ${companies.length} endrede bedrifter til ${DELTA_FILE} (${changed} totalt siden forrige synkronisering)`);
+    console.log(`Lagret ${deleted.length} slettede bedrifter til ${DELETED_FILE} (${removed} totalt siden forrige synkronisering)`);
+
+    // Cursoren flyttes først når delta-filene er skrevet; feilede enheter følger med cursoren
+    await this.saveUpdateCursor({ ...nextCursor, retry: failed });
+
+    return { changed: companies.length, deleted: deleted.length };
+  }
+
+  /**
+   * Flett nye endringer inn i delta-filene i stedet for å overskrive dem, slik at to kjøringer
+   * av fetch:delta uten synkronisering imellom ikke mister den første. Siste endring per
+   * organisasjonsnummer vinner. Returnerer antall enheter i hver fil.
+   */
+  private appendDelta(companies: Enhet[], deleted: SlettetEnhet[]): { changed: number; removed: number } {
+    if (!fs.existsSync(OUTPUT_DIR)) {
+      fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+    }
+
+    const readFile = <T>(file: string): T[] => (fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf-8')) : []);
+    const changedByOrgnr = new Map(readFile<Enhet>(DELTA_FILE).map(enhet => [enhet.organisasjonsnummer, enhet]));
+    const deletedByOrgnr = new Map(readFile<SlettetEnhet>(DELETED_FILE).map(enhet => [enhet.organisasjonsnummer, enhet]));
+
+    for (const enhet of deleted) {
+      changedByOrgnr.delete(enhet.organisasjonsnummer);
+      deletedByOrgnr.set(enhet.organisasjonsnummer, enhet);
+    }
+    for (const enhet of companies) {
+      deletedByOrgnr.delete(enhet.organisasjonsnummer);
+      changedByOrgnr.set(enhet.organisasjonsnummer, enhet);
+    }
+
+    // Skriv via temp-filer slik at et avbrudd ikke etterlater halvskrevne filer
+    for (const [file, records] of [
+      [DELTA_FILE, Array.from(changedByOrgnr.values())],
+      [DELETED_FILE, Array.from(deletedByOrgnr.values())],
+    ] as const) {
+      fs.writeFileSync(`${file}.tmp`, JSON.stringify(records, null, 2), 'utf-8');
+      fs.renameSync(`${file}.tmp`, file);
+    }
+
+    return { changed: changedByOrgnr.size, removed: deletedByOrgnr.size };
+  }
+
+  /**
+   * Hent detaljert informasjon om en enkelt bedrift. Med throwOnError kastes andre feil enn 404
+   * (timeout, 5xx etter retries) i stedet for å gi null, slik at kalleren kan prøve igjen senere.
+   */
+  async fetchEnhet(organisasjonsnummer: string, options: { throwOnError?: boolean } = {}): Promise<Enhet | null> {
     try {
       const response = await this.client.get<Enhet>(
         `/enheter/${organisasjonsnummer}`
       );
-      await this.sleep(this.delay);
-      return response.data;
+      // Poster som feiler valideringen legges i karantene i stedet for å lagres
+      return validateRecord('enhet', response.data) ? response.data : null;
     } catch (error: any) {
       if (error.response?.status === 404) {
         console.warn(`Bedrift ${organisasjonsnummer} ikke funnet`);
         return null;
       }
       console.error(`Feil ved henting av ${organisasjonsnummer}:`, error.message);
+      if (options.throwOnError) {
+        throw error;
+      }
       return null;
     }
   }
 
   /**
-   * Hent alle bedrifter med detaljert informasjon
+   * Hent roller (daglig leder, styre, revisor, regnskapsfører m.m.) for en bedrift
    */
-  async fetchAllCompanies(organisasjonsnumre: string[]): Promise<Enhet[]> {
-    console.log(`Henter detaljert informasjon for ${organisasjonsnumre.length} bedrifter...`);
-    const companies: Enhet[] = [];
+  async fetchRoller(organisasjonsnummer: string): Promise<RollerResponse | null> {
+    try {
+      const response = await this.client.get<RollerResponse>(
+        `/enheter/${organisasjonsnummer}/roller`
+      );
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        console.warn(`Roller for ${organisasjonsnummer} ikke funnet`);
+        return null;
+      }
+      console.error(`Feil ved henting av roller for ${organisasjonsnummer}:`, error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Hent alle bedrifter med detaljert informasjon.
+   * Resultatet skrives til sjekkpunkt-journalen; allerede hentede org.nr hoppes over ved gjenopptak.
+   */
+  async fetchAllCompanies(
+    organisasjonsnumre: string[],
+    checkpoint: FetchCheckpoint = new FetchCheckpoint(OUTPUT_DIR, 'detail')
+  ): Promise<number> {
+    const processed = await checkpoint.loadProcessedOrgnumre();
+    const remaining = organisasjonsnumre.filter(orgnr => !processed.has(orgnr));
+    if (processed.size > 0) {
+      console.log(`Gjenopptar fra sjekkpunkt: ${processed.size} bedrifter er allerede hentet`);
+    }
+
+    console.log(`Henter detaljert informasjon for ${remaining.length} bedrifter...`);
     const batchSize = 100;
+    let fetched = 0;
 
-    for (let i = 0; i < organisasjonsnumre.length; i += batchSize) {
-      const batch = organisasjonsnumre.slice(i, i + batchSize);
-      console.log(`Henter batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(organisasjonsnumre.length / batchSize)} (${i + 1}-${Math.min(i + batchSize, organisasjonsnumre.length)} av ${organisasjonsnumre.length})`);
+    for (let i = 0; i < remaining.length; i += batchSize) {
+      const batch = remaining.slice(i, i + batchSize);
+      console.log(`Henter batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(remaining.length / batchSize)} (${i + 1}-${Math.min(i + batchSize, remaining.length)} av ${remaining.length})`);
 
+      // Klienten begrenser samtidighet og requests per sekund, så hele batchen kan startes på en gang
       const promises = batch.map(orgnr => this.fetchEnhet(orgnr));
       const results = await Promise.all(promises);
+      const companies = results.filter((company): company is Enhet => Boolean(company));
 
-      results.forEach((company, index) => {
-        if (company) {
-          companies.push(company);
-        }
-      });
-
-      // Lagre progresjon
-      if ((i + batchSize) % 1000 === 0 || i + batchSize >= organisasjonsnumre.length) {
-        await this.saveProgress(companies);
-      }
+      // Bekreft batchen i journalen før vi går videre
+      await checkpoint.append(companies);
+      fetched += companies.length;
     }
 
-    return companies;
+    return fetched;
   }
 
   /**
-   * Fallback: hent alle enheter direkte fra /enheter-endepunktet med paginering
+   * Fallback: hent alle enheter direkte fra /enheter-endepunktet med paginering.
+   * Hver side skrives til sjekkpunkt-journalen, og hentingen gjenopptas fra lagret neste-lenke.
    */
-  async fetchAllCompaniesPaginated(existingCompanies: Enhet[] = []): Promise<Enhet[]> {
+  async fetchAllCompaniesPaginated(
+    checkpoint: FetchCheckpoint = new FetchCheckpoint(OUTPUT_DIR, 'paginated')
+  ): Promise<{ count: number; complete: boolean }> {
     console.log('Faller tilbake til paginert henting fra /enheter...');
-    const companies: Enhet[] = [...existingCompanies];
-    const seen = new Set(companies.map(company => company.organisasjonsnummer));
-    let nextPath: string | undefined = `/enheter?page=0&size=${PAGINATION_PAGE_SIZE}`;
-    let page = 0;
+    const seen = await checkpoint.loadProcessedOrgnumre();
+    const resume = checkpoint.state;
+    let nextPath: string | undefined = resume.nextLink ?? `/enheter?page=0&size=${PAGINATION_PAGE_SIZE}`;
+    let page = resume.lastPage !== null ? resume.lastPage + 1 : 0;
     let retries = 0;
+    let complete = false;
+
+    if (checkpoint.hasProgress()) {
+      console.log(`Gjenopptar fra sjekkpunkt: side ${page + 1}, ${seen.size} enheter allerede hentet`);
+    }
 
     while (nextPath) {
       try {
@@ -183,40 +440,41 @@ class BrregFetcher {
           if (page === 0) {
             console.warn('Ingen enheter returnert fra /enheter-endepunktet.');
           }
+          complete = true;
           break;
         }
 
-        let inserted = 0;
+        const inserted: Enhet[] = [];
         for (const enhet of enheter) {
-          if (!enhet.organisasjonsnummer) {
+          if (!enhet.organisasjonsnummer || !validateRecord('enhet', enhet)) {
             continue;
           }
           if (!seen.has(enhet.organisasjonsnummer)) {
-            companies.push(enhet);
+            inserted.push(enhet);
             seen.add(enhet.organisasjonsnummer);
-            inserted++;
           }
         }
 
+        nextPath = data._links?.next?.href;
+        if (nextPath && nextPath.startsWith(BRREG_API_BASE)) {
+          nextPath = nextPath.replace(BRREG_API_BASE, '');
+        }
+
+        // Bekreft siden og neste lenke i sjekkpunktet for å kunne gjenoppta ved avbrudd
+        await checkpoint.append(inserted, { lastPage: page, nextLink: nextPath ?? null });
+
         const totalPagesText = typeof data.page?.totalPages === 'number'
           ? `/${data.page.totalPages}`
           : '';
         console.log(
-          `Hentet side ${page + 1}${totalPagesText}, ${inserted} nye enheter, totalt ${companies.length}`
+          `Hentet side ${page + 1}${totalPagesText}, ${inserted.length} nye enheter, totalt ${seen.size}`
         );
 
-        // Lagre progresjon etter hver side for å kunne gjenoppta ved avbrudd
-        await this.saveProgress(companies);
-
-        nextPath = data._links?.next?.href;
-        if (nextPath && nextPath.startsWith(BRREG_API_BASE)) {
-          nextPath = nextPath.replace(BRREG_API_BASE, '');
-        }
-
         if (nextPath) {
           page++;
           retries = 0;
-          await this.sleep(this.delay);
+        } else {
+          complete = true;
         }
       } catch (error: any) {
         const errorDetail = error.response?.data || error.message || error;
@@ -232,14 +490,74 @@ class BrregFetcher {
 
         retries += 1;
         if (retries >= MAX_PAGINATION_RETRIES) {
-          console.error(`Avbryter etter ${retries} mislykkede forsøk på side ${page}.`);
+          console.error(`Avbryter etter ${retries} mislykkede forsøk på side ${page}. Kjør på nytt for å gjenoppta.`);
           break;
         }
-        await this.sleep(this.delay * 5);
+        await this.sleep(this.delay);
       }
     }
 
-    return companies;
+    return { count: seen.size, complete };
+  }
+
+  /**
+   * Skriv sjekkpunktet til companies.json (og organisasjonsnumre.json uten fletting).
+   * Sjekkpunktet fjernes kun når hentingen er fullført.
+   */
+  async finalizeCheckpoint(
+    checkpoint: FetchCheckpoint,
+    options: { mergeExisting?: boolean; complete?: boolean } = {}
+  ): Promise<number> {
+    if (!fs.existsSync(OUTPUT_DIR)) {
+      fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+    }
+
+    const count = await checkpoint.materialize(
+      COMPANIES_FILE,
+      options.mergeExisting ? COMPANIES_FILE : undefined
+    );
+    console.log(`Lagret ${count} bedrifter til ${COMPANIES_FILE}`);
+
+    // Ved fletting kommer org.numrene fra /oppdateringer, og organisasjonsnumre.json beholdes
+    if (!options.mergeExisting) {
+      const orgnrCount = await this.generateOrganisasjonsnumreFromFile();
+      console.log(`Lagret ${orgnrCount} organisasjonsnumre til ${ORGNUMMER_FILE}`);
+    }
+
+    if (options.complete !== false) {
+      checkpoint.clear();
+    }
+
+    return count;
+  }
+
+  /**
+   * Les organisasjonsnumrene i en JSON-array-fil strømmende
+   */
+  async readOrganisasjonsnumreFromFile(file: string): Promise<Set<string>> {
+    const organisasjonsnumre = new Set<string>();
+    const jsonPipeline = chain([fs.createReadStream(file), parser(), streamArray()]);
+
+    for await (const data of jsonPipeline as AsyncIterable<{ value: Enhet }>) {
+      if (data.value?.organisasjonsnummer) {
+        organisasjonsnumre.add(data.value.organisasjonsnummer);
+      }
+    }
+
+    return organisasjonsnumre;
+  }
+
+  /**
+   * Hent alle enheter som matcher filteret via partisjonerte søk mot /enheter.
+   * Partisjoner med mer enn 10 000 treff deles opp til hver del kan pagineres ferdig.
+   */
+  async fetchPartitioned(
+    filter: PartitionFilter,
+    checkpoint: FetchCheckpoint = new FetchCheckpoint(OUTPUT_DIR, 'partitioned')
+  ): Promise<CrawlResult> {
+    console.log('Henter enheter med partisjonerte søk fra /enheter...');
+    const crawler = new PartitionedCrawler(this.client, checkpoint);
+    return crawler.crawl(filter);
   }
 
   /**
@@ -247,37 +565,69 @@ class BrregFetcher {
    */
   async downloadBulkDataset(): Promise<{ count: number }> {
     console.log('Laster ned komplett datasett via /enheter/lastned (kan ta flere minutter)...');
+    await this.downloadBulkFile(
+      '/enheter/lastned',
+      'application/vnd.brreg.enhetsregisteret.enhet.v2+gzip;charset=UTF-8',
+      BULK_GZIP_FILE,
+      COMPANIES_FILE
+    );
+
+    const count = await this.generateOrganisasjonsnumreFromFile();
+    console.log(`Genererte organisasjonsnumre for ${count} bedrifter`);
+
+    return { count };
+  }
+
+  /**
+   * Laster ned alle underenheter via bulk-endepunktet og lagrer til fil
+   */
+  async downloadUnderenheterBulkDataset(): Promise<{ file: string }> {
+    console.log('Laster ned alle underenheter via /underenheter/lastned (kan ta flere minutter)...');
+    await this.downloadBulkFile(
+      '/underenheter/lastned',
+      'application/vnd.brreg.enhetsregisteret.underenhet.v2+gzip;charset=UTF-8',
+      UNDERENHETER_GZIP_FILE,
+      UNDERENHETER_FILE
+    );
+
+    return { file: UNDERENHETER_FILE };
+  }
+
+  /**
+   * Strømmer en gzip-komprimert bulkfil til disk og pakker den ut til targetFile
+   */
+  private async downloadBulkFile(
+    endpoint: string,
+    accept: string,
+    gzipFile: string,
+    targetFile: string
+  ): Promise<void> {
     if (!fs.existsSync(OUTPUT_DIR)) {
       fs.mkdirSync(OUTPUT_DIR, { recursive: true });
     }
 
-    const response: AxiosResponse<NodeJS.ReadableStream> = await this.client.get('/enheter/lastned', {
+    const response: AxiosResponse<NodeJS.ReadableStream> = await this.client.get(endpoint, {
       responseType: 'stream',
       headers: {
-        Accept: 'application/vnd.brreg.enhetsregisteret.enhet.v2+gzip;charset=UTF-8',
+        Accept: accept,
       },
     });
 
     const gzipStream = response.data;
-    await streamPipeline(gzipStream, fs.createWriteStream(BULK_GZIP_FILE));
-    console.log(`Bulkfil lagret til ${BULK_GZIP_FILE}`);
+    await streamPipeline(gzipStream, fs.createWriteStream(gzipFile));
+    console.log(`Bulkfil lagret til ${gzipFile}`);
 
     await streamPipeline(
-      fs.createReadStream(BULK_GZIP_FILE),
+      fs.createReadStream(gzipFile),
       zlib.createGunzip(),
-      fs.createWriteStream(COMPANIES_FILE)
+      fs.createWriteStream(targetFile)
     );
-    console.log(`Bulkfil pakket ut til ${COMPANIES_FILE}`);
-
-    const count = await this.generateOrganisasjonsnumreFromFile();
-    console.log(`Genererte organisasjonsnumre for ${count} bedrifter`);
+    console.log(`Bulkfil pakket ut til ${targetFile}`);
 
     // Fjern gzip-fil for å spare plass
-    if (fs.existsSync(BULK_GZIP_FILE)) {
-      fs.unlinkSync(BULK_GZIP_FILE);
+    if (fs.existsSync(gzipFile)) {
+      fs.unlinkSync(gzipFile);
     }
-
-    return { count };
   }
 
   /**
@@ -337,22 +687,6 @@ class BrregFetcher {
     });
   }
 
-  /**
-   * Lagre progresjon til fil
-   */
-  async saveProgress(companies: Enhet[]): Promise<void> {
-    if (!fs.existsSync(OUTPUT_DIR)) {
-      fs.mkdirSync(OUTPUT_DIR, { recursive: true });
-    }
-
-    fs.writeFileSync(
-      COMPANIES_FILE,
-      JSON.stringify(companies, null, 2),
-      'utf-8'
-    );
-    console.log(`Lagret ${companies.length} bedrifter til ${COMPANIES_FILE}`);
-  }
-
   /**
    * Lagre organisasjonsnumre til fil
    */
@@ -370,6 +704,73 @@ class BrregFetcher {
   }
 }
 
+/**
+ * Henter et filtrert utvalg enheter uten bulkfil
+ */
+async function partitionedMain(filter: PartitionFilter) {
+  console.log('Starter partisjonert henting av bedriftsdata fra Brønnøysundregistrene...\n');
+
+  const fetcher = new BrregFetcher();
+
+  try {
+    const checkpoint = new FetchCheckpoint(OUTPUT_DIR, 'partitioned');
+    const result = await fetcher.fetchPartitioned(filter, checkpoint);
+    // Et filtrert utvalg skal ikke erstatte et fullt uttrekk, så resultatet flettes inn i companies.json
+    const count = await fetcher.finalizeCheckpoint(checkpoint, { mergeExisting: true });
+
+    if (result.truncated.length > 0) {
+      console.warn(`\n${result.truncated.length} partisjoner hadde over 10 000 treff på én dag og ble hentet delvis`);
+    }
+    console.log(`\n✅ Ferdig! Hentet ${result.fetched} bedrifter fra ${result.partitions} partisjoner (${count} totalt i fil)`);
+    console.log(`Data lagret i: ${COMPANIES_FILE}`);
+  } catch (error: any) {
+    console.error('Feil ved partisjonert henting:', error);
+    console.error('Sjekkpunktet er beholdt; kjør på nytt for å fortsette.');
+    process.exit(1);
+  } finally {
+    logHttpMetrics();
+    logValidationSummary();
+  }
+}
+
+/**
+ * Laster ned alle underenheter via bulkfil
+ */
+async function underenheterMain() {
+  console.log('Starter henting av underenheter fra Brønnøysundregistrene...\n');
+
+  const fetcher = new BrregFetcher();
+
+  try {
+    const { file } = await fetcher.downloadUnderenheterBulkDataset();
+    console.log(`\n✅ Ferdig! Underenheter lagret i: ${file}`);
+  } catch (error: any) {
+    console.error('Feil ved henting av underenheter:', error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Inkrementell kjøring: henter kun enheter endret siden lagret cursor
+ */
+async function incrementalMain(since?: string) {
+  console.log('Starter inkrementell henting fra /oppdateringer/enheter...\n');
+
+  const fetcher = new BrregFetcher();
+
+  try {
+    const { changed, deleted } = await fetcher.fetchIncrementalUpdates(since);
+    console.log(`\n✅ Ferdig! ${changed} endrede og ${deleted} slettede bedrifter`);
+    console.log(`Data lagret i: ${DELTA_FILE} og ${DELETED_FILE}`);
+  } catch (error: any) {
+    console.error('Feil ved inkrementell henting:', error);
+    process.exit(1);
+  } finally {
+    logHttpMetrics();
+    logValidationSummary();
+  }
+}
+
 /**
  * Hovedfunksjon
  */
@@ -397,34 +798,21 @@ async function main() {
     if (organisasjonsnumre.length === 0) {
       console.warn('Ingen organisasjonsnumre funnet via /oppdateringer. Bruker paginering via /enheter i stedet.');
 
-      let existingCompanies: Enhet[] = [];
-      if (fs.existsSync(COMPANIES_FILE)) {
-        const fileContent = fs.readFileSync(COMPANIES_FILE, 'utf-8');
-        existingCompanies = JSON.parse(fileContent);
-        if (existingCompanies.length > 0) {
-          console.log(`Fortsetter med ${existingCompanies.length} tidligere lagrede bedrifter.`);
-        }
-      }
-
       try {
-        const companies = await fetcher.fetchAllCompaniesPaginated(existingCompanies);
-        await fetcher.saveProgress(companies);
-
-        const allOrgnumre = Array.from(
-          new Set(
-            companies
-              .map(company => company.organisasjonsnummer)
-              .filter((orgnr): orgnr is string => Boolean(orgnr))
-          )
-        );
-        await fetcher.saveOrganisasjonsnumre(allOrgnumre);
+        const checkpoint = new FetchCheckpoint(OUTPUT_DIR, 'paginated');
+        const { complete } = await fetcher.fetchAllCompaniesPaginated(checkpoint);
+        const count = await fetcher.finalizeCheckpoint(checkpoint, { complete });
 
-        console.log(`\n✅ Ferdig! Hentet totalt ${companies.length} bedrifter via paginering`);
+        if (!complete) {
+          console.warn(`\nHentingen ble avbrutt. Sjekkpunktet er beholdt; kjør på nytt for å fortsette.`);
+        }
+        console.log(`\n✅ Ferdig! Hentet totalt ${count} bedrifter via paginering`);
         console.log(`Data lagret i: ${COMPANIES_FILE}`);
         return;
       } catch (error: any) {
         if (error instanceof PaginationLimitError) {
           console.warn('API-et begrenser paginering til 10 000 oppføringer per søk. Laster ned bulkfil i stedet...');
+          console.warn('Tips: bruk `npm run fetch:partitioned` med filtre for å hente et utvalg uten bulkfil.');
           const { count } = await fetcher.downloadBulkDataset();
           console.log(`\n✅ Ferdig! Hentet totalt ${count} bedrifter via bulkfil`);
           console.log(`Data lagret i: ${COMPANIES_FILE}`);
@@ -436,41 +824,54 @@ async function main() {
     }
 
     // Steg 2: Hent detaljert informasjon for alle bedrifter
-    let companies: Enhet[] = [];
+    let missingOrgnumre = organisasjonsnumre;
 
-    // Prøv å laste eksisterende data
+    // Hopp over bedrifter som allerede finnes i companies.json
     if (fs.existsSync(COMPANIES_FILE)) {
-      console.log('Fant eksisterende bedriftsdata, laster den...');
-      const fileContent = fs.readFileSync(COMPANIES_FILE, 'utf-8');
-      companies = JSON.parse(fileContent);
-      console.log(`Ladet ${companies.length} bedrifter fra fil`);
-
-      // Finn organisasjonsnumre som mangler
-      const existingOrgnumre = new Set(companies.map(c => c.organisasjonsnummer));
-      const missingOrgnumre = organisasjonsnumre.filter(orgnr => !existingOrgnumre.has(orgnr));
-
-      if (missingOrgnumre.length > 0) {
-        console.log(`Henter ${missingOrgnumre.length} manglende bedrifter...`);
-        const missingCompanies = await fetcher.fetchAllCompanies(missingOrgnumre);
-        companies = [...companies, ...missingCompanies];
-        await fetcher.saveProgress(companies);
-      }
-    } else {
-      companies = await fetcher.fetchAllCompanies(organisasjonsnumre);
-      await fetcher.saveProgress(companies);
+      console.log('Fant eksisterende bedriftsdata, leser organisasjonsnumre...');
+      const existingOrgnumre = await fetcher.readOrganisasjonsnumreFromFile(COMPANIES_FILE);
+      console.log(`Fant ${existingOrgnumre.size} bedrifter i fil`);
+      missingOrgnumre = organisasjonsnumre.filter(orgnr => !existingOrgnumre.has(orgnr));
     }
 
-    console.log(`\n✅ Ferdig! Hentet totalt ${companies.length} bedrifter`);
+    const checkpoint = new FetchCheckpoint(OUTPUT_DIR, 'detail');
+    if (missingOrgnumre.length > 0 || checkpoint.hasProgress()) {
+      await fetcher.fetchAllCompanies(missingOrgnumre, checkpoint);
+      const count = await fetcher.finalizeCheckpoint(checkpoint, { mergeExisting: true });
+      console.log(`\n✅ Ferdig! Hentet totalt ${count} bedrifter`);
+    } else {
+      console.log('\n✅ Ferdig! Ingen manglende bedrifter');
+    }
     console.log(`Data lagret i: ${COMPANIES_FILE}`);
   } catch (error: any) {
     console.error('Feil i hovedfunksjon:', error);
     process.exit(1);
+  } finally {
+    logHttpMetrics();
+    logValidationSummary();
   }
 }
 
 // Kjør hvis kalt direkte
 if (require.main === module) {
-  main().catch(console.error);
+  const args = process.argv.slice(2);
+  if (args.includes('--underenheter')) {
+    underenheterMain().catch(console.error);
+  } else if (args.includes('--partitioned')) {
+    const readArg = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+    partitionedMain({
+      kommunenummer: readArg('kommunenummer'),
+      organisasjonsform: readArg('organisasjonsform'),
+      naeringskode: readArg('naeringskode'),
+      fraRegistreringsdato: readArg('fra'),
+      tilRegistreringsdato: readArg('til'),
+    }).catch(console.error);
+  } else if (args.includes('--incremental')) {
+    const sinceArg = args.find(arg => arg.startsWith('--since='));
+    incrementalMain(sinceArg?.slice('--since='.length)).catch(console.error);
+  } else {
+    main().catch(console.error);
+  }
 }
 
 export { BrregFetcher };
@@ -0,0 +1,233 @@
+/**
+ * Samlet visning av ett selskap: registerdata med oppslagsnavn fra referansetabellene,
+ * tilgjengelige årsregnskap med nøkkeltall, antall underenheter og roller, og når
+ * dataene sist ble oppdatert.
+ */
+
+import { withClient } from './db';
+import { getPostgresEnvConfig, sanitizeIdentifier } from './postgres';
+import { AnnualReportData, readRegnskap } from './regnskap-model';
+import { ROLES_TABLE } from './sync-roles';
+import {
+  KOMMUNE_TABLE,
+  NAERINGSKODE_TABLE,
+  ORGANISASJONSFORM_TABLE,
+  SEKTORKODE_TABLE,
+} from './sync-reference-data';
+import { Enhet, Naeringskode } from './types';
+
+export interface CodeLabel {
+  kode: string;
+  navn: string | null;
+}
+
+export interface AnnualReportSummary {
+  ar: number;
+  /** Regnskapsperioden (YYYY-MM-DD) og etiketten for den, f.eks. "2022/2023" */
+  fraDato: string;
+  tilDato: string;
+  regnskapsaar: string;
+  source: string | null;
+  valuta: string | null;
+  aarsresultat: number | null;
+  salgsinntekt: number | null;
+  sumInntekter: number | null;
+  driftsresultat: number | null;
+  sumEiendeler: number | null;
+  sumEgenkapital: number | null;
+  scraped_at: Date | string | null;
+}
+
+export interface CompanyDetail {
+  organisasjonsnummer: string;
+  navn: string | null;
+  organisasjonsform: CodeLabel | null;
+  naeringskoder: CodeLabel[];
+  sektor: CodeLabel | null;
+  forretningsadresse: {
+    adresse: string[];
+    postnummer: string | null;
+    poststed: string | null;
+    kommune: CodeLabel | null;
+  } | null;
+  antallAnsatte: number | null;
+  stiftelsesdato: string | null;
+  registreringsdato: string | null;
+  konkurs: boolean;
+  underAvvikling: boolean;
+  registrertIMvaregisteret: boolean;
+  annualReports: AnnualReportSummary[];
+  underenheter: { antall: number; href: string };
+  roller: { antall: number; href: string };
+  last_synced: Date | string | null;
+  /** Sist et årsregnskap for selskapet ble hentet */
+  scraped_at: Date | string | null;
+  deleted_at: Date | string | null;
+  /** Hele dokumentet fra Enhetsregisteret */
+  data: Enhet;
+}
+
+interface CompanyDetailRow {
+  organisasjonsnummer: string;
+  navn: string | null;
+  data: Enhet;
+  antall_ansatte: number | null;
+  stiftelsesdato: string | null;
+  registreringsdato: string | null;
+  konkurs: boolean | null;
+  under_avvikling: boolean | null;
+  registrert_i_mvaregisteret: boolean | null;
+  last_synced: Date | string | null;
+  deleted_at: Date | string | null;
+  organisasjonsform_kode: string | null;
+  organisasjonsform_navn: string | null;
+  sektor_navn: string | null;
+  kommune_navn: string | null;
+  naeringskode_navn: Record<string, string> | null;
+  antall_underenheter: number;
+  antall_roller: number;
+}
+
+function toLabel(kode: string | null | undefined, navn: string | null | undefined): CodeLabel | null {
+  return kode ? { kode, navn: navn ?? null } : null;
+}
+
+/**
+ * Hent selskapet med alt som hører til. Returnerer null hvis organisasjonsnummeret ikke finnes.
+ * Slettede selskaper returneres med deleted_at satt.
+ */
+export async function fetchCompanyDetail(organisasjonsnummer: string): Promise<CompanyDetail | null> {
+  const tableName = sanitizeIdentifier(getPostgresEnvConfig().tableName);
+
+  return withClient(async (client) => {
+    const companyResult = await client.query<CompanyDetailRow>(
+      `
+        SELECT
+          c.organisasjonsnummer,
+          c.navn,
+          c.data,
+          c.antall_ansatte,
+          to_char(c.stiftelsesdato, 'YYYY-MM-DD') AS stiftelsesdato,
+          to_char(c.registreringsdato, 'YYYY-MM-DD') AS registreringsdato,
+          c.konkurs,
+          c.under_avvikling,
+          c.registrert_i_mvaregisteret,
+          c.last_synced,
+          c.deleted_at,
+          c.organisasjonsform_kode,
+          COALESCE(o.beskrivelse, c.data->'organisasjonsform'->>'beskrivelse') AS organisasjonsform_navn,
+          COALESCE(s.navn, c.data->'institusjonellSektorkode'->>'beskrivelse') AS sektor_navn,
+          k.navn AS kommune_navn,
+          (
+            SELECT jsonb_object_agg(n.kode, n.navn)
+            FROM ${NAERINGSKODE_TABLE} n
+            WHERE n.kode IN (
+              c.data->'naeringskode1'->>'kode',
+              c.data->'naeringskode2'->>'kode',
+              c.data->'naeringskode3'->>'kode'
+            )
+          ) AS naeringskode_navn,
+          (SELECT count(*)::int FROM brreg_underenheter u WHERE u.overordnet_enhet = c.organisasjonsnummer) AS antall_underenheter,
+          (SELECT count(*)::int FROM ${ROLES_TABLE} r WHERE r.organisasjonsnummer = c.organisasjonsnummer) AS antall_roller
+        FROM ${tableName} c
+        LEFT JOIN ${ORGANISASJONSFORM_TABLE} o ON o.kode = c.organisasjonsform_kode
+        LEFT JOIN ${SEKTORKODE_TABLE} s ON s.kode = c.data->'institusjonellSektorkode'->>'kode'
+        LEFT JOIN ${KOMMUNE_TABLE} k ON k.kommunenummer = c.forretningsadresse_kommunenummer
+        WHERE c.organisasjonsnummer = $1
+      `,
+      [organisasjonsnummer],
+    );
+
+    const row = companyResult.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    const reportResult = await client.query<{
+      ar: number;
+      fra_dato: string;
+      til_dato: string;
+      regnskapsaar: string;
+      data: AnnualReportData;
+      scraped_at: Date | string | null;
+    }>(
+      `
+        SELECT ar,
+               to_char(fra_dato, 'YYYY-MM-DD') AS fra_dato,
+               to_char(til_dato, 'YYYY-MM-DD') AS til_dato,
+               regnskapsaar,
+               data,
+               scraped_at
+        FROM brreg_annual_reports
+        WHERE organisasjonsnummer = $1
+        ORDER BY til_dato DESC, fra_dato DESC
+      `,
+      [organisasjonsnummer],
+    );
+
+    const annualReports = reportResult.rows.map((report) => {
+      const regnskap = readRegnskap(report.data, report.ar);
+      return {
+        ar: report.ar,
+        fraDato: report.fra_dato,
+        tilDato: report.til_dato,
+        regnskapsaar: report.regnskapsaar,
+        source: typeof report.data?.source === 'string' ? report.data.source : null,
+        valuta: regnskap?.valuta ?? null,
+        aarsresultat: regnskap?.resultatregnskap.aarsresultat ?? null,
+        salgsinntekt: regnskap?.resultatregnskap.salgsinntekter ?? null,
+        sumInntekter: regnskap?.resultatregnskap.sumDriftsinntekter ?? null,
+        driftsresultat: regnskap?.resultatregnskap.driftsresultat ?? null,
+        sumEiendeler: regnskap?.eiendeler.sumEiendeler ?? null,
+        sumEgenkapital: regnskap?.egenkapitalGjeld.sumEgenkapital ?? null,
+        scraped_at: report.scraped_at,
+      };
+    });
+
+    const scrapedAt = annualReports
+      .map((report) => report.scraped_at)
+      .filter((value): value is Date | string => value !== null)
+      .sort((a, b) => new Date(b).getTime() - new Date(a).getTime())[0] ?? null;
+
+    const data = row.data;
+    const adresse = data.forretningsadresse;
+    const naeringskoder = [data.naeringskode1, data.naeringskode2, data.naeringskode3]
+      .filter((kode): kode is Naeringskode & { kode: string } => Boolean(kode?.kode))
+      .map((kode) => ({ kode: kode.kode, navn: row.naeringskode_navn?.[kode.kode] ?? kode.beskrivelse ?? null }));
+
+    return {
+      organisasjonsnummer: row.organisasjonsnummer,
+      navn: row.navn,
+      organisasjonsform: toLabel(row.organisasjonsform_kode, row.organisasjonsform_navn),
+      naeringskoder,
+      sektor: toLabel(data.institusjonellSektorkode?.kode, row.sektor_navn),
+      forretningsadresse: adresse
+        ? {
+            adresse: adresse.adresse ?? [],
+            postnummer: adresse.postnummer ?? null,
+            poststed: adresse.poststed ?? null,
+            kommune: toLabel(adresse.kommunenummer, row.kommune_navn ?? adresse.kommune),
+          }
+        : null,
+      antallAnsatte: row.antall_ansatte,
+      stiftelsesdato: row.stiftelsesdato,
+      registreringsdato: row.registreringsdato,
+      konkurs: row.konkurs ?? false,
+      underAvvikling: row.under_avvikling ?? false,
+      registrertIMvaregisteret: row.registrert_i_mvaregisteret ?? false,
+      annualReports,
+      underenheter: {
+        antall: row.antall_underenheter,
+        href: `/api/companies/${row.organisasjonsnummer}/underenheter`,
+      },
+      roller: {
+        antall: row.antall_roller,
+        href: `/api/companies/${row.organisasjonsnummer}/roles`,
+      },
+      last_synced: row.last_synced,
+      scraped_at: scrapedAt,
+      deleted_at: row.deleted_at,
+      data,
+    };
+  });
+}
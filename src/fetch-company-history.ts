@@ -0,0 +1,83 @@
+import { withClient } from './db';
+import { getPostgresEnvConfig, sanitizeIdentifier } from './postgres';
+import { diffVersions, FieldChange, HISTORY_TABLE } from './company-history';
+
+export interface CompanySnapshot {
+  organisasjonsnummer: string;
+  navn: string | null;
+  organisasjonsform_kode: string | null;
+  naeringskode1: string | null;
+  data: Record<string, unknown>;
+  valid_from: Date | string | null;
+  valid_to: Date | string | null;
+  deleted_at: Date | string | null;
+}
+
+export interface CompanyVersion {
+  version: number;
+  valid_from: Date | string;
+  valid_to: Date | string | null;
+  changes: FieldChange[];
+}
+
+/**
+ * Hent et selskap slik det så ut på et gitt tidspunkt, eller gjeldende versjon uten asOf.
+ * Returnerer null hvis selskapet ikke fantes (eller var slettet) på tidspunktet.
+ */
+export async function fetchCompanyAsOf(organisasjonsnummer: string, asOf?: Date): Promise<CompanySnapshot | null> {
+  const tableName = sanitizeIdentifier(getPostgresEnvConfig().tableName);
+
+  return withClient(async (client) => {
+    if (!asOf) {
+      const result = await client.query<CompanySnapshot>(
+        `
+          SELECT organisasjonsnummer, navn, organisasjonsform_kode, naeringskode1, data,
+                 last_synced AS valid_from, NULL AS valid_to, deleted_at
+          FROM ${tableName}
+          WHERE organisasjonsnummer = $1
+        `,
+        [organisasjonsnummer],
+      );
+      return result.rows[0] ?? null;
+    }
+
+    const result = await client.query<CompanySnapshot>(
+      `
+        SELECT organisasjonsnummer, navn, organisasjonsform_kode, naeringskode1, data,
+               valid_from, valid_to, NULL AS deleted_at
+        FROM ${HISTORY_TABLE}
+        WHERE organisasjonsnummer = $1
+          AND valid_from <= $2
+          AND (valid_to IS NULL OR valid_to > $2)
+        ORDER BY valid_from DESC
+        LIMIT 1
+      `,
+      [organisasjonsnummer, asOf],
+    );
+    return result.rows[0] ?? null;
+  });
+}
+
+/**
+ * List alle versjoner av et selskap med feltvise endringer fra forrige versjon
+ */
+export async function fetchCompanyHistory(organisasjonsnummer: string): Promise<CompanyVersion[]> {
+  return withClient(async (client) => {
+    const result = await client.query<{ data: Record<string, unknown>; valid_from: Date; valid_to: Date | null }>(
+      `
+        SELECT data, valid_from, valid_to
+        FROM ${HISTORY_TABLE}
+        WHERE organisasjonsnummer = $1
+        ORDER BY valid_from ASC, id ASC
+      `,
+      [organisasjonsnummer],
+    );
+
+    return result.rows.map((row, index) => ({
+      version: index + 1,
+      valid_from: row.valid_from,
+      valid_to: row.valid_to,
+      changes: diffVersions(index > 0 ? result.rows[index - 1].data : null, row.data),
+    }));
+  });
+}
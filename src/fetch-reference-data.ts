@@ -0,0 +1,140 @@
+import { withClient } from './db';
+import { getPostgresEnvConfig, sanitizeIdentifier } from './postgres';
+import {
+  KOMMUNE_TABLE,
+  NAERINGSKODE_TABLE,
+  ORGANISASJONSFORM_TABLE,
+  SEKTORKODE_TABLE,
+} from './sync-reference-data';
+
+export interface NaeringskodeRow {
+  kode: string;
+  parent_kode: string | null;
+  nivaa: number;
+  navn: string;
+  kortnavn: string | null;
+  seksjon: string | null;
+}
+
+export interface NaeringskodeFilter {
+  nivaa?: number;
+  seksjon?: string;
+  parent?: string;
+}
+
+export interface NaceSectionSummary {
+  seksjon: string | null;
+  navn: string | null;
+  antall: number;
+}
+
+export async function fetchOrganisasjonsformer() {
+  return withClient(async (client) => {
+    const result = await client.query<{ kode: string; beskrivelse: string | null; utgaatt: string | null }>(
+      `SELECT kode, beskrivelse, to_char(utgaatt, 'YYYY-MM-DD') AS utgaatt FROM ${ORGANISASJONSFORM_TABLE} ORDER BY kode`,
+    );
+    return result.rows;
+  });
+}
+
+export async function fetchNaeringskoder(filter: NaeringskodeFilter = {}) {
+  return withClient(async (client) => {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    if (filter.nivaa) {
+      values.push(filter.nivaa);
+      conditions.push(`nivaa = $${values.length}`);
+    }
+    if (filter.seksjon) {
+      values.push(filter.seksjon.toUpperCase());
+      conditions.push(`seksjon = $${values.length}`);
+    }
+    if (filter.parent) {
+      values.push(filter.parent);
+      conditions.push(`parent_kode = $${values.length}`);
+    }
+
+    const result = await client.query<NaeringskodeRow>(
+      `
+        SELECT kode, parent_kode, nivaa, navn, kortnavn, seksjon
+        FROM ${NAERINGSKODE_TABLE}
+        ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY kode
+      `,
+      values,
+    );
+    return result.rows;
+  });
+}
+
+/**
+ * Hent en næringskode med hele hierarkiet fra seksjon og ned til koden
+ */
+export async function fetchNaeringskode(kode: string): Promise<(NaeringskodeRow & { hierarki: NaeringskodeRow[] }) | null> {
+  return withClient(async (client) => {
+    const result = await client.query<NaeringskodeRow>(
+      `
+        WITH RECURSIVE hierarki AS (
+          SELECT kode, parent_kode, nivaa, navn, kortnavn, seksjon
+          FROM ${NAERINGSKODE_TABLE}
+          WHERE kode = $1
+          UNION ALL
+          SELECT n.kode, n.parent_kode, n.nivaa, n.navn, n.kortnavn, n.seksjon
+          FROM ${NAERINGSKODE_TABLE} n
+          JOIN hierarki h ON n.kode = h.parent_kode
+        )
+        SELECT * FROM hierarki ORDER BY nivaa
+      `,
+      [kode],
+    );
+
+    const current = result.rows.find((row) => row.kode === kode);
+    return current ? { ...current, hierarki: result.rows } : null;
+  });
+}
+
+export async function fetchSektorkoder() {
+  return withClient(async (client) => {
+    const result = await client.query<{ kode: string; parent_kode: string | null; nivaa: number; navn: string }>(
+      `SELECT kode, parent_kode, nivaa, navn FROM ${SEKTORKODE_TABLE} ORDER BY kode`,
+    );
+    return result.rows;
+  });
+}
+
+export async function fetchKommuner(fylkesnummer?: string) {
+  return withClient(async (client) => {
+    const result = await client.query<{ kommunenummer: string; navn: string; fylkesnummer: string }>(
+      `
+        SELECT kommunenummer, navn, fylkesnummer
+        FROM ${KOMMUNE_TABLE}
+        ${fylkesnummer ? 'WHERE fylkesnummer = $1' : ''}
+        ORDER BY kommunenummer
+      `,
+      fylkesnummer ? [fylkesnummer] : [],
+    );
+    return result.rows;
+  });
+}
+
+/**
+ * Antall aktive selskaper per NACE-seksjon, basert på naeringskode1
+ */
+export async function fetchNaceSectionSummary(): Promise<NaceSectionSummary[]> {
+  const tableName = sanitizeIdentifier(getPostgresEnvConfig().tableName);
+
+  return withClient(async (client) => {
+    const result = await client.query<NaceSectionSummary>(
+      `
+        SELECT n.seksjon, s.navn, COUNT(*)::int AS antall
+        FROM ${tableName} c
+        LEFT JOIN ${NAERINGSKODE_TABLE} n ON n.kode = c.naeringskode1
+        LEFT JOIN ${NAERINGSKODE_TABLE} s ON s.kode = n.seksjon
+        WHERE c.deleted_at IS NULL
+        GROUP BY n.seksjon, s.navn
+        ORDER BY n.seksjon NULLS LAST
+      `,
+    );
+    return result.rows;
+  });
+}
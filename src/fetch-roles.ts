@@ -0,0 +1,44 @@
+import { query } from './db';
+
+export interface RoleRow {
+  organisasjonsnummer: string;
+  rollegruppe_kode: string | null;
+  rollegruppe_beskrivelse: string | null;
+  rolle_kode: string;
+  rolle_beskrivelse: string | null;
+  holder_type: 'PERSON' | 'ENHET';
+  holder_navn: string | null;
+  person_fodselsdato: string | null;
+  holder_organisasjonsnummer: string | null;
+  fratraadt: boolean;
+  rekkefolge: number | null;
+  sist_endret: string | null;
+  last_synced: Date | string | null;
+}
+
+export async function fetchRolesFromPostgres(organisasjonsnummer: string): Promise<RoleRow[]> {
+  const result = await query<RoleRow>(
+    `
+      SELECT
+        organisasjonsnummer,
+        rollegruppe_kode,
+        rollegruppe_beskrivelse,
+        rolle_kode,
+        rolle_beskrivelse,
+        holder_type,
+        holder_navn,
+        to_char(person_fodselsdato, 'YYYY-MM-DD') AS person_fodselsdato,
+        holder_organisasjonsnummer,
+        fratraadt,
+        rekkefolge,
+        to_char(sist_endret, 'YYYY-MM-DD') AS sist_endret,
+        last_synced
+      FROM brreg_roles
+      WHERE organisasjonsnummer = $1
+      ORDER BY rollegruppe_kode, rekkefolge NULLS LAST, holder_navn
+    `,
+    [organisasjonsnummer],
+  );
+
+  return result.rows;
+}
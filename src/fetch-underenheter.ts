@@ -0,0 +1,40 @@
+import { query } from './db';
+
+export interface UnderenhetRow {
+  organisasjonsnummer: string;
+  overordnet_enhet: string;
+  navn: string | null;
+  naeringskode1: string | null;
+  antall_ansatte: number | null;
+  beliggenhet_postnummer: string | null;
+  beliggenhet_poststed: string | null;
+  beliggenhet_kommunenummer: string | null;
+  beliggenhetsadresse: Record<string, unknown> | null;
+  data: Record<string, unknown>;
+  last_synced: Date | string | null;
+}
+
+export async function fetchUnderenheterFromPostgres(overordnetEnhet: string): Promise<UnderenhetRow[]> {
+  const result = await query<UnderenhetRow>(
+    `
+      SELECT
+        organisasjonsnummer,
+        overordnet_enhet,
+        navn,
+        naeringskode1,
+        antall_ansatte,
+        beliggenhet_postnummer,
+        beliggenhet_poststed,
+        beliggenhet_kommunenummer,
+        beliggenhetsadresse,
+        data,
+        last_synced
+      FROM brreg_underenheter
+      WHERE overordnet_enhet = $1
+      ORDER BY navn, organisasjonsnummer
+    `,
+    [overordnetEnhet],
+  );
+
+  return result.rows;
+}
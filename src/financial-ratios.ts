@@ -0,0 +1,152 @@
+/**
+ * Nøkkeltall (forholdstall) beregnet fra brreg_financials og lagret per selskap og regnskapsperiode i
+ * brreg_financial_ratios. Et nøkkeltall som ikke kan beregnes lagres som NULL, med
+ * årsaken i kolonnen mangler.
+ */
+
+import { PostgresClient } from './db';
+import { FinancialFigures } from './financials';
+
+export const FINANCIAL_RATIOS_TABLE = 'brreg_financial_ratios';
+
+export const RATIO_KEYS = [
+  'egenkapitalandel',
+  'likviditetsgrad_1',
+  'likviditetsgrad_2',
+  'driftsmargin',
+  'resultatmargin',
+  'totalkapitalrentabilitet',
+  'vekst_driftsinntekter',
+] as const;
+
+export type RatioKey = (typeof RATIO_KEYS)[number];
+
+export interface FinancialRatios {
+  values: Record<RatioKey, number | null>;
+  /** Hvorfor et nøkkeltall er null */
+  mangler: Partial<Record<RatioKey, string>>;
+}
+
+interface RatioDefinition {
+  key: Exclude<RatioKey, 'vekst_driftsinntekter'>;
+  numerator: string[];
+  denominator: string;
+  compute: (figures: Record<string, number>) => number;
+}
+
+const RATIO_DEFINITIONS: RatioDefinition[] = [
+  {
+    key: 'egenkapitalandel',
+    numerator: ['egenkapital'],
+    denominator: 'sum_eiendeler',
+    compute: (f) => f.egenkapital / f.sum_eiendeler,
+  },
+  {
+    key: 'likviditetsgrad_1',
+    numerator: ['sum_omloepsmidler'],
+    denominator: 'kortsiktig_gjeld',
+    compute: (f) => f.sum_omloepsmidler / f.kortsiktig_gjeld,
+  },
+  {
+    key: 'likviditetsgrad_2',
+    numerator: ['sum_omloepsmidler', 'varer'],
+    denominator: 'kortsiktig_gjeld',
+    compute: (f) => (f.sum_omloepsmidler - f.varer) / f.kortsiktig_gjeld,
+  },
+  {
+    key: 'driftsmargin',
+    numerator: ['driftsresultat'],
+    denominator: 'driftsinntekter',
+    compute: (f) => f.driftsresultat / f.driftsinntekter,
+  },
+  {
+    key: 'resultatmargin',
+    numerator: ['resultat_for_skatt'],
+    denominator: 'driftsinntekter',
+    compute: (f) => f.resultat_for_skatt / f.driftsinntekter,
+  },
+  {
+    key: 'totalkapitalrentabilitet',
+    numerator: ['driftsresultat', 'finansinntekter'],
+    denominator: 'sum_eiendeler',
+    compute: (f) => (f.driftsresultat + f.finansinntekter) / f.sum_eiendeler,
+  },
+];
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Beregn nøkkeltallene for én regnskapsperiode. previous er regnskapet for perioden før (for vekst), eller null.
+ */
+export function computeFinancialRatios(figures: FinancialFigures, previous: FinancialFigures | null): FinancialRatios {
+  const values = Object.fromEntries(RATIO_KEYS.map((key) => [key, null])) as Record<RatioKey, number | null>;
+  const mangler: Partial<Record<RatioKey, string>> = {};
+
+  for (const definition of RATIO_DEFINITIONS) {
+    const missing = [...definition.numerator, definition.denominator].filter((column) => figures[column] == null);
+    if (missing.length) {
+      mangler[definition.key] = `mangler ${missing.join(', ')}`;
+    } else if (figures[definition.denominator] === 0) {
+      mangler[definition.key] = `${definition.denominator} er 0`;
+    } else {
+      values[definition.key] = round(definition.compute(figures as Record<string, number>));
+    }
+  }
+
+  const current = figures.driftsinntekter;
+  const before = previous?.driftsinntekter;
+  if (!previous) {
+    mangler.vekst_driftsinntekter = 'ingen regnskap for forrige periode';
+  } else if (current == null || before == null) {
+    mangler.vekst_driftsinntekter = current == null ? 'mangler driftsinntekter' : 'mangler driftsinntekter for forrige periode';
+  } else if (before === 0) {
+    mangler.vekst_driftsinntekter = 'driftsinntekter for forrige periode er 0';
+  } else {
+    values.vekst_driftsinntekter = round((current - before) / Math.abs(before));
+  }
+
+  return { values, mangler };
+}
+
+/**
+ * Beregn og lagre nøkkeltallene for alle regnskapsperioder et selskap har regnskap for. Kjøres etter
+ * hver endring i brreg_financials, siden veksten for perioden etter avhenger av perioden som ble endret.
+ * Forrige periode er den siste som slutter før perioden starter.
+ */
+export async function refreshFinancialRatios(client: PostgresClient, organisasjonsnummer: string): Promise<void> {
+  const inputs = Array.from(
+    new Set(RATIO_DEFINITIONS.flatMap((definition) => [...definition.numerator, definition.denominator]).concat('driftsinntekter')),
+  );
+  const result = await client.query<FinancialFigures & { ar: number; fra_dato: string; til_dato: string }>(
+    `
+      SELECT ar,
+             to_char(fra_dato, 'YYYY-MM-DD') AS fra_dato,
+             to_char(til_dato, 'YYYY-MM-DD') AS til_dato,
+             ${inputs.map((column) => `${column}::float8 AS ${column}`).join(', ')}
+      FROM brreg_financials
+      WHERE organisasjonsnummer = $1
+      ORDER BY til_dato, fra_dato
+    `,
+    [organisasjonsnummer],
+  );
+
+  const columns = ['organisasjonsnummer', 'ar', 'fra_dato', 'til_dato', ...RATIO_KEYS, 'mangler'];
+
+  for (const row of result.rows) {
+    // ISO-datoer kan sammenlignes som tekst
+    const previous = result.rows.filter((candidate) => candidate.til_dato < row.fra_dato).pop() ?? null;
+    const { values, mangler } = computeFinancialRatios(row, previous);
+    await client.query(
+      `
+        INSERT INTO ${FINANCIAL_RATIOS_TABLE} (${columns.join(', ')})
+        VALUES (${columns.map((_, index) => `$${index + 1}`).join(', ')})
+        ON CONFLICT (organisasjonsnummer, fra_dato, til_dato) DO UPDATE
+        SET ${[...RATIO_KEYS, 'mangler'].map((column) => `${column} = EXCLUDED.${column}`).join(', ')},
+            computed_at = NOW()
+      `,
+      [organisasjonsnummer, row.ar, row.fra_dato, row.til_dato, ...RATIO_KEYS.map((key) => values[key]), JSON.stringify(mangler)],
+    );
+  }
+}
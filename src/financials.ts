@@ -0,0 +1,174 @@
+/**
+ * Nøkkeltall fra årsregnskapene i tabellen brreg_financials, én typet kolonne per regnskapslinje.
+ * Fylles når et regnskap lagres (API-et og PDF-scrapingen), og et script fyller tabellen for
+ * regnskap som ble lagret før den fantes.
+ *
+ * Bruk:
+ *   npm run backfill:financials
+ *   npm run backfill:financials -- --all      # skriv alle regnskap på nytt
+ */
+
+import { migrateUp } from './migrate';
+import { closePool, getPool, PostgresClient } from './db';
+import { AnnualReportData, fiscalPeriod, readRegnskap, Regnskap } from './regnskap-model';
+import { FINANCIAL_RATIOS_TABLE, refreshFinancialRatios } from './financial-ratios';
+import { refreshPeerDistributions } from './peer-benchmark';
+
+export const FINANCIALS_TABLE = 'brreg_financials';
+
+const BACKFILL_BATCH_SIZE = Number(process.env.POSTGRES_BACKFILL_BATCH_SIZE ?? '500');
+
+/**
+ * Kolonnene i brreg_financials og hvor i regnskapsmodellen verdien hentes fra
+ */
+export const FINANCIAL_COLUMNS: Array<[string, (regnskap: Regnskap) => number | null]> = [
+  ['driftsinntekter', (r) => r.resultatregnskap.sumDriftsinntekter],
+  ['salgsinntekt', (r) => r.resultatregnskap.salgsinntekter],
+  ['driftskostnader', (r) => r.resultatregnskap.sumDriftskostnader],
+  ['driftsresultat', (r) => r.resultatregnskap.driftsresultat],
+  ['finansresultat', (r) => r.resultatregnskap.nettoFinans],
+  ['resultat_for_skatt', (r) => r.resultatregnskap.ordinaertResultatFoerSkattekostnad],
+  ['aarsresultat', (r) => r.resultatregnskap.aarsresultat],
+  ['sum_eiendeler', (r) => r.eiendeler.sumEiendeler],
+  ['egenkapital', (r) => r.egenkapitalGjeld.sumEgenkapital],
+  ['gjeld', (r) => r.egenkapitalGjeld.sumGjeld],
+  ['lonnskostnader', (r) => r.resultatregnskap.loennskostnad],
+  ['finansinntekter', (r) => r.resultatregnskap.sumFinansinntekter],
+  ['sum_omloepsmidler', (r) => r.eiendeler.sumOmloepsmidler],
+  ['varer', (r) => r.eiendeler.varer],
+  ['kortsiktig_gjeld', (r) => r.egenkapitalGjeld.sumKortsiktigGjeld],
+];
+
+export const FINANCIAL_COLUMN_NAMES = FINANCIAL_COLUMNS.map(([column]) => column);
+
+export type FinancialFigures = Record<string, number | null>;
+
+/**
+ * Lagre nøkkeltallene for et regnskap under regnskapsperioden (se fiscalPeriod) og beregn
+ * forholdstallene for selskapet på nytt. Tall som mangler i regnskapet overskriver ikke tall som allerede er lagret, slik at en
+ * PDF med bare årsresultat ikke sletter tall fra API-et.
+ */
+export async function upsertFinancials(
+  client: PostgresClient,
+  organisasjonsnummer: string,
+  regnskap: Regnskap,
+  source: string,
+): Promise<void> {
+  const periode = fiscalPeriod(regnskap.ar, regnskap.periode);
+  const columns = ['organisasjonsnummer', 'ar', 'fra_dato', 'til_dato', 'valuta', 'source', ...FINANCIAL_COLUMN_NAMES];
+  const values = [
+    organisasjonsnummer,
+    regnskap.ar,
+    periode.fraDato,
+    periode.tilDato,
+    regnskap.valuta,
+    source,
+    ...FINANCIAL_COLUMNS.map(([, value]) => value(regnskap)),
+  ];
+  const keep = ['valuta', ...FINANCIAL_COLUMN_NAMES];
+
+  await client.query(
+    `
+      INSERT INTO ${FINANCIALS_TABLE} (${columns.join(', ')})
+      VALUES (${columns.map((_, index) => `$${index + 1}`).join(', ')})
+      ON CONFLICT (organisasjonsnummer, fra_dato, til_dato) DO UPDATE
+      SET ${keep.map((column) => `${column} = COALESCE(EXCLUDED.${column}, ${FINANCIALS_TABLE}.${column})`).join(',\n          ')},
+          source = EXCLUDED.source,
+          updated_at = NOW()
+    `,
+    values,
+  );
+
+  await refreshFinancialRatios(client, organisasjonsnummer);
+}
+
+/**
+ * Fyll brreg_financials og brreg_financial_ratios fra data i brreg_annual_reports, i batcher
+ * ordnet på (organisasjonsnummer, fra_dato, til_dato).
+ * Returnerer antall regnskap som ble skrevet.
+ */
+export async function backfillFinancials(client: PostgresClient, options: { all?: boolean } = {}): Promise<number> {
+  let last: [string, string, string] = ['', '0001-01-01', '0001-01-01'];
+  let written = 0;
+
+  while (true) {
+    const result = await client.query<{
+      organisasjonsnummer: string;
+      ar: number;
+      fra_dato: string;
+      til_dato: string;
+      data: AnnualReportData;
+    }>(
+      `
+        SELECT r.organisasjonsnummer, r.ar,
+               to_char(r.fra_dato, 'YYYY-MM-DD') AS fra_dato,
+               to_char(r.til_dato, 'YYYY-MM-DD') AS til_dato,
+               r.data
+        FROM brreg_annual_reports r
+        LEFT JOIN ${FINANCIALS_TABLE} f
+          ON f.organisasjonsnummer = r.organisasjonsnummer AND f.fra_dato = r.fra_dato AND f.til_dato = r.til_dato
+        LEFT JOIN ${FINANCIAL_RATIOS_TABLE} q
+          ON q.organisasjonsnummer = r.organisasjonsnummer AND q.fra_dato = r.fra_dato AND q.til_dato = r.til_dato
+        WHERE (r.organisasjonsnummer, r.fra_dato, r.til_dato) > ($1, $2::date, $3::date)
+          ${options.all ? '' : 'AND (f.organisasjonsnummer IS NULL OR q.organisasjonsnummer IS NULL)'}
+        ORDER BY r.organisasjonsnummer, r.fra_dato, r.til_dato
+        LIMIT $4
+      `,
+      [...last, BACKFILL_BATCH_SIZE],
+    );
+
+    if (!result.rows.length) {
+      break;
+    }
+
+    await client.query('BEGIN');
+    try {
+      for (const row of result.rows) {
+        const regnskap = readRegnskap(row.data, row.ar);
+        if (regnskap) {
+          // Raden i brreg_annual_reports bestemmer perioden, også når regnskapet selv sier noe annet
+          await upsertFinancials(
+            client,
+            row.organisasjonsnummer,
+            { ...regnskap, ar: row.ar, periode: { fraDato: row.fra_dato, tilDato: row.til_dato } },
+            row.data?.source ?? 'unknown',
+          );
+          written += 1;
+        }
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw error;
+    }
+
+    const lastRow = result.rows[result.rows.length - 1];
+    last = [lastRow.organisasjonsnummer, lastRow.fra_dato, lastRow.til_dato];
+    console.log(`Skrevet nøkkeltall for ${written} regnskap (til og med ${last[0]} ${last[1]}–${last[2]})`);
+  }
+
+  return written;
+}
+
+async function main() {
+  const client = await getPool().connect();
+
+  try {
+    await migrateUp(client, { quiet: true });
+    const written = await backfillFinancials(client, { all: process.argv.includes('--all') });
+    console.log(`✅ Fylte ${FINANCIALS_TABLE} for ${written} regnskap`);
+    if (written > 0) {
+      await refreshPeerDistributions(client);
+    }
+  } finally {
+    client.release();
+    await closePool();
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('Kunne ikke fylle nøkkeltall', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,286 @@
+/**
+ * Felles HTTP-klient for alle kall mot brreg og andre eksterne tjenester.
+ *
+ * - Token bucket per host (requests per sekund med burst)
+ * - Begrenset antall samtidige requests per host
+ * - Retry med eksponentiell backoff og jitter ved 429, 502-504 og nettverksfeil
+ * - Respekterer Retry-After fra serveren
+ * - Enkle metrikker per host (antall requests, retries, 429, feil og latency)
+ *
+ * Grensene er delt mellom alle klienter i prosessen, slik at f.eks. BrregFetcher
+ * og regnskap-api ikke til sammen overskrider grensen mot data.brreg.no.
+ */
+
+import axios, { AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios';
+
+interface HostLimits {
+  requestsPerSecond: number;
+  burst: number;
+  maxConcurrency: number;
+}
+
+export interface HttpRequestConfig extends AxiosRequestConfig {
+  /** Overstyr antall retries for denne requesten */
+  retries?: number;
+}
+
+export interface HostMetrics {
+  requests: number;
+  successes: number;
+  failures: number;
+  retries: number;
+  throttled: number;
+  inFlight: number;
+  averageLatencyMs: number;
+  maxLatencyMs: number;
+}
+
+const DEFAULT_LIMITS: HostLimits = {
+  requestsPerSecond: Number(process.env.HTTP_REQUESTS_PER_SECOND ?? '5'),
+  burst: 5,
+  maxConcurrency: Number(process.env.HTTP_MAX_CONCURRENCY ?? '4'),
+};
+
+// Brreg oppgir maks 10 requests per sekund for de åpne API-ene
+const HOST_LIMITS: Record<string, Partial<HostLimits>> = {
+  'data.brreg.no': { requestsPerSecond: 10, burst: 10, maxConcurrency: 5 },
+  'virksomhet.brreg.no': { requestsPerSecond: 1, burst: 2, maxConcurrency: 2 },
+};
+
+const MAX_RETRIES = Number(process.env.HTTP_MAX_RETRIES ?? '5');
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30000;
+const RETRYABLE_STATUS = new Set([429, 502, 503, 504]);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(private readonly ratePerSecond: number, private readonly capacity: number) {
+    this.tokens = capacity;
+  }
+
+  async take(): Promise<void> {
+    while (true) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000));
+    }
+  }
+
+  private refill() {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsedSeconds * this.ratePerSecond);
+    this.lastRefill = now;
+  }
+}
+
+class Semaphore {
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+
+  constructor(private readonly limit: number) {}
+
+  async acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active += 1;
+      return;
+    }
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  release() {
+    const next = this.waiting.shift();
+    if (next) {
+      // Plassen går direkte videre til neste i køen
+      next();
+    } else {
+      this.active -= 1;
+    }
+  }
+}
+
+class HostLimiter {
+  readonly bucket: TokenBucket;
+  readonly semaphore: Semaphore;
+  readonly metrics = {
+    requests: 0,
+    successes: 0,
+    failures: 0,
+    retries: 0,
+    throttled: 0,
+    inFlight: 0,
+    totalLatencyMs: 0,
+    maxLatencyMs: 0,
+  };
+
+  constructor(limits: HostLimits) {
+    this.bucket = new TokenBucket(limits.requestsPerSecond, limits.burst);
+    this.semaphore = new Semaphore(limits.maxConcurrency);
+  }
+}
+
+const limiters = new Map<string, HostLimiter>();
+
+function getLimiter(host: string): HostLimiter {
+  let limiter = limiters.get(host);
+  if (!limiter) {
+    limiter = new HostLimiter({ ...DEFAULT_LIMITS, ...HOST_LIMITS[host] });
+    limiters.set(host, limiter);
+  }
+  return limiter;
+}
+
+function resolveHost(config: AxiosRequestConfig): string {
+  try {
+    return new URL(axios.getUri(config)).host || 'unknown';
+  } catch {
+    return 'unknown';
+  }
+}
+
+/**
+ * Retry-After kan være antall sekunder eller en HTTP-dato
+ */
+function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function backoffDelay(attempt: number, retryAfter: unknown): number {
+  const fromHeader = parseRetryAfter(retryAfter);
+  if (fromHeader !== null) {
+    return Math.min(fromHeader, MAX_BACKOFF_MS * 4);
+  }
+  // Full jitter: tilfeldig mellom 0 og eksponentiell grense
+  const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+function isRetryableError(error: unknown): error is AxiosError {
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+  if (error.response) {
+    return RETRYABLE_STATUS.has(error.response.status);
+  }
+  // Ingen respons: timeout, ECONNRESET o.l. Avbrutte requests prøves ikke på nytt
+  return error.code !== 'ERR_CANCELED';
+}
+
+export class HttpClient {
+  constructor(private readonly defaults: AxiosRequestConfig = {}) {}
+
+  async request<T = any>(config: HttpRequestConfig): Promise<AxiosResponse<T>> {
+    const { retries = MAX_RETRIES, ...requestConfig } = config;
+    const merged: AxiosRequestConfig = {
+      ...this.defaults,
+      ...requestConfig,
+      headers: { ...(this.defaults.headers ?? {}), ...(requestConfig.headers ?? {}) } as AxiosRequestConfig['headers'],
+    };
+    const host = resolveHost(merged);
+    const limiter = getLimiter(host);
+
+    for (let attempt = 0; ; attempt += 1) {
+      await limiter.semaphore.acquire();
+      await limiter.bucket.take();
+
+      limiter.metrics.requests += 1;
+      limiter.metrics.inFlight += 1;
+      const startedAt = Date.now();
+
+      let response: AxiosResponse<T> | null = null;
+      let failure: unknown = null;
+      try {
+        response = await axios.request<T>(merged);
+      } catch (error) {
+        failure = error;
+      } finally {
+        const latency = Date.now() - startedAt;
+        limiter.metrics.inFlight -= 1;
+        limiter.metrics.totalLatencyMs += latency;
+        limiter.metrics.maxLatencyMs = Math.max(limiter.metrics.maxLatencyMs, latency);
+        limiter.semaphore.release();
+      }
+
+      // validateStatus kan slippe gjennom 429/5xx som "vellykket" respons
+      const status = response?.status ?? (axios.isAxiosError(failure) ? failure.response?.status : undefined);
+      if (status === 429) {
+        limiter.metrics.throttled += 1;
+      }
+
+      const retryable = response
+        ? RETRYABLE_STATUS.has(response.status)
+        : isRetryableError(failure);
+
+      if (retryable && attempt < retries) {
+        limiter.metrics.retries += 1;
+        const headers = response?.headers ?? (axios.isAxiosError(failure) ? failure.response?.headers : undefined);
+        const delay = backoffDelay(attempt, headers?.['retry-after']);
+        console.warn(`[http] ${host}: ${status ?? (failure as Error)?.message} – prøver igjen om ${delay} ms (forsøk ${attempt + 1}/${retries})`);
+        await sleep(delay);
+        continue;
+      }
+
+      if (response) {
+        limiter.metrics.successes += 1;
+        return response;
+      }
+
+      limiter.metrics.failures += 1;
+      throw failure;
+    }
+  }
+
+  get<T = any>(url: string, config: HttpRequestConfig = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...config, method: 'GET', url });
+  }
+
+  post<T = any>(url: string, data?: unknown, config: HttpRequestConfig = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...config, method: 'POST', url, data });
+  }
+}
+
+export function createHttpClient(defaults: AxiosRequestConfig = {}): HttpClient {
+  return new HttpClient(defaults);
+}
+
+/** Delt klient uten standardverdier, for enkeltstående kall */
+export const httpClient = createHttpClient();
+
+export function getHttpMetrics(): Record<string, HostMetrics> {
+  const snapshot: Record<string, HostMetrics> = {};
+  for (const [host, limiter] of limiters) {
+    const { totalLatencyMs, ...metrics } = limiter.metrics;
+    const completed = metrics.requests - metrics.inFlight;
+    snapshot[host] = {
+      ...metrics,
+      averageLatencyMs: completed > 0 ? Math.round(totalLatencyMs / completed) : 0,
+    };
+  }
+  return snapshot;
+}
+
+export function logHttpMetrics() {
+  for (const [host, metrics] of Object.entries(getHttpMetrics())) {
+    console.log(
+      `[http] ${host}: ${metrics.requests} requests, ${metrics.successes} ok, ${metrics.failures} feilet, ` +
+      `${metrics.retries} retries, ${metrics.throttled} × 429, snitt ${metrics.averageLatencyMs} ms`
+    );
+  }
+}
@@ -0,0 +1,259 @@
+/**
+ * Versjonerte skjemamigreringer for Postgres
+ *
+ * Migreringene ligger i src/migrations/ og kjøres i rekkefølge. Hver kjørt migrering
+ * registreres i schema_migrations med en sjekksum av SQL-en, slik at endringer i en
+ * allerede kjørt migrering oppdages. En advisory lock sørger for at to prosesser
+ * (f.eks. to scrapere som starter samtidig) ikke migrerer parallelt.
+ *
+ * Bruk:
+ *   npm run migrate -- status
+ *   npm run migrate -- up              # alle ventende
+ *   npm run migrate -- up --to=5
+ *   npm run migrate -- down            # siste migrering
+ *   npm run migrate -- down --steps=2
+ */
+
+import { createHash } from 'crypto';
+import { QueryConfig } from 'pg';
+
+import { closePool, getPool, PostgresClient } from './db';
+import { getPostgresEnvConfig, sanitizeIdentifier } from './postgres';
+import { MIGRATIONS } from './migrations';
+import { Migration, MigrationContext, MigrationError } from './migrations/migration';
+
+export { MigrationError };
+
+const MIGRATIONS_TABLE = 'schema_migrations';
+// Fast nøkkel for pg_advisory_lock, delt av alle prosesser som migrerer
+const MIGRATION_LOCK_KEY = 7236_2024;
+const LOCK_TIMEOUT_MS = Number(process.env.MIGRATION_LOCK_TIMEOUT_MS ?? '120000');
+const LOCK_POLL_MS = 1000;
+// Migreringer kan ta lenger tid enn standard statement_timeout i poolen
+const MIGRATION_QUERY_TIMEOUT_MS = Number(process.env.MIGRATION_QUERY_TIMEOUT_MS ?? '1800000');
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: 'applied' | 'pending' | 'changed' | 'missing';
+  appliedAt: Date | string | null;
+}
+
+interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date | string;
+}
+
+function getContext(): MigrationContext {
+  return { companiesTable: sanitizeIdentifier(getPostgresEnvConfig().tableName) };
+}
+
+// Sjekksummen beregnes med en fast kontekst, slik at samme migrering gir samme sjekksum uansett POSTGRES_TABLE
+const CHECKSUM_CONTEXT: MigrationContext = { companiesTable: 'companies_table' };
+
+function checksum(migration: Migration): string {
+  return createHash('sha256').update(migration.up(CHECKSUM_CONTEXT).trim()).digest('hex');
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function ensureMigrationsTable(client: PostgresClient) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      execution_ms INTEGER
+    );
+  `);
+}
+
+async function fetchApplied(client: PostgresClient): Promise<AppliedMigration[]> {
+  const result = await client.query<AppliedMigration>(
+    `SELECT version, name, checksum, applied_at FROM ${MIGRATIONS_TABLE} ORDER BY version`,
+  );
+  return result.rows;
+}
+
+/**
+ * Kjør fn mens vi holder migreringslåsen. pg_try_advisory_lock pollees i stedet for
+ * å blokkere, slik at ventingen ikke treffer query_timeout.
+ */
+async function withMigrationLock<T>(client: PostgresClient, fn: () => Promise<T>): Promise<T> {
+  const startedAt = Date.now();
+  let waiting = false;
+  while (true) {
+    const result = await client.query<{ locked: boolean }>('SELECT pg_try_advisory_lock($1) AS locked', [MIGRATION_LOCK_KEY]);
+    if (result.rows[0].locked) {
+      break;
+    }
+    if (Date.now() - startedAt > LOCK_TIMEOUT_MS) {
+      throw new MigrationError(`Fikk ikke migreringslåsen innen ${LOCK_TIMEOUT_MS} ms; kjører en annen prosess migreringer?`);
+    }
+    if (!waiting) {
+      console.log('Venter på at en annen prosess skal bli ferdig med migreringer...');
+      waiting = true;
+    }
+    await sleep(LOCK_POLL_MS);
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]).catch(() => {});
+  }
+}
+
+async function runInTransaction(client: PostgresClient, sql: string, after: () => Promise<unknown>) {
+  await client.query('BEGIN');
+  try {
+    // Poolen setter statement_timeout for vanlige spørringer; migreringer får lenger tid
+    await client.query(`SET LOCAL statement_timeout = ${MIGRATION_QUERY_TIMEOUT_MS}`);
+    await client.query({ text: sql, query_timeout: MIGRATION_QUERY_TIMEOUT_MS } as QueryConfig);
+    await after();
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  }
+}
+
+function verifyChecksums(applied: AppliedMigration[]) {
+  for (const row of applied) {
+    const migration = MIGRATIONS.find((candidate) => candidate.version === row.version);
+    if (migration && checksum(migration) !== row.checksum) {
+      throw new MigrationError(
+        `Migrering ${row.version} (${row.name}) er endret etter at den ble kjørt. Legg til en ny migrering i stedet.`,
+      );
+    }
+  }
+}
+
+/**
+ * Kjør alle ventende migreringer (eller opp til og med `to`). Returnerer antall kjørte.
+ */
+export async function migrateUp(client: PostgresClient, options: { to?: number; quiet?: boolean } = {}): Promise<number> {
+  const context = getContext();
+
+  return withMigrationLock(client, async () => {
+    await ensureMigrationsTable(client);
+    const applied = await fetchApplied(client);
+    verifyChecksums(applied);
+
+    const appliedVersions = new Set(applied.map((row) => row.version));
+    const pending = MIGRATIONS.filter(
+      (migration) => !appliedVersions.has(migration.version) && (options.to === undefined || migration.version <= options.to),
+    );
+
+    for (const migration of pending) {
+      const startedAt = Date.now();
+      await runInTransaction(client, migration.up(context), () =>
+        client.query(
+          `INSERT INTO ${MIGRATIONS_TABLE} (version, name, checksum, execution_ms) VALUES ($1, $2, $3, $4)`,
+          [migration.version, migration.name, checksum(migration), Date.now() - startedAt],
+        ),
+      );
+      console.log(`Migrering ${migration.version} (${migration.name}) kjørt på ${Date.now() - startedAt} ms`);
+    }
+
+    if (!pending.length && !options.quiet) {
+      console.log('Databasen er oppdatert, ingen ventende migreringer.');
+    }
+    return pending.length;
+  });
+}
+
+/**
+ * Rull tilbake de siste `steps` migreringene. Returnerer antall tilbakerullede.
+ */
+export async function migrateDown(client: PostgresClient, options: { steps?: number } = {}): Promise<number> {
+  const context = getContext();
+  const steps = options.steps ?? 1;
+
+  return withMigrationLock(client, async () => {
+    await ensureMigrationsTable(client);
+    const applied = await fetchApplied(client);
+    // Generer all SQL først, slik at en migrering som ikke kan rulles tilbake stopper før noe er endret
+    const toRevert = applied.slice(-steps).reverse().map((row) => {
+      const migration = MIGRATIONS.find((candidate) => candidate.version === row.version);
+      if (!migration) {
+        throw new MigrationError(`Fant ikke migrering ${row.version} (${row.name}) i src/migrations`);
+      }
+      return { migration, sql: migration.down(context) };
+    });
+
+    for (const { migration, sql } of toRevert) {
+      await runInTransaction(client, sql, () =>
+        client.query(`DELETE FROM ${MIGRATIONS_TABLE} WHERE version = $1`, [migration.version]),
+      );
+      console.log(`Migrering ${migration.version} (${migration.name}) rullet tilbake`);
+    }
+
+    return toRevert.length;
+  });
+}
+
+export async function migrationStatus(client: PostgresClient): Promise<MigrationStatus[]> {
+  await ensureMigrationsTable(client);
+  const applied = new Map((await fetchApplied(client)).map((row) => [row.version, row]));
+
+  const statuses: MigrationStatus[] = MIGRATIONS.map((migration) => {
+    const row = applied.get(migration.version);
+    return {
+      version: migration.version,
+      name: migration.name,
+      state: !row ? 'pending' : row.checksum === checksum(migration) ? 'applied' : 'changed',
+      appliedAt: row?.applied_at ?? null,
+    };
+  });
+
+  // Migreringer i databasen som ikke lenger finnes i koden
+  for (const row of applied.values()) {
+    if (!MIGRATIONS.some((migration) => migration.version === row.version)) {
+      statuses.push({ version: row.version, name: row.name, state: 'missing', appliedAt: row.applied_at });
+    }
+  }
+
+  return statuses.sort((a, b) => a.version - b.version);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const command = args.find((arg) => !arg.startsWith('--')) ?? 'status';
+  const readNumber = (name: string) => {
+    const value = args.find((arg) => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+    return value !== undefined ? Number(value) : undefined;
+  };
+
+  const client = await getPool().connect();
+
+  try {
+    if (command === 'up') {
+      await migrateUp(client, { to: readNumber('to') });
+    } else if (command === 'down') {
+      await migrateDown(client, { steps: readNumber('steps') });
+    } else if (command === 'status') {
+      for (const status of await migrationStatus(client)) {
+        const appliedAt = status.appliedAt ? new Date(status.appliedAt).toISOString() : '';
+        console.log(`${String(status.version).padStart(4, '0')}  ${status.name.padEnd(20)}  ${status.state.padEnd(8)}  ${appliedAt}`);
+      }
+    } else {
+      throw new MigrationError(`Ukjent kommando "${command}". Bruk up, down eller status.`);
+    }
+  } finally {
+    client.release();
+    await closePool();
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('Migrering feilet:', error instanceof MigrationError ? error.message : error);
+    process.exit(1);
+  });
+}
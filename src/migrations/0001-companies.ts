@@ -0,0 +1,23 @@
+import { Migration, MigrationError } from './migration';
+
+// Idempotent slik at databaser opprettet før migreringene kan tas i bruk uten endringer
+export const companies: Migration = {
+  version: 1,
+  name: 'companies',
+  up: ({ companiesTable }) => `
+    CREATE TABLE IF NOT EXISTS ${companiesTable} (
+      organisasjonsnummer TEXT PRIMARY KEY,
+      navn TEXT,
+      organisasjonsform_kode TEXT,
+      naeringskode1 TEXT,
+      data JSONB NOT NULL,
+      last_synced TIMESTAMPTZ DEFAULT NOW(),
+      deleted_at TIMESTAMPTZ
+    );
+    ALTER TABLE ${companiesTable} ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+  `,
+  // Tabellen kan ha eksistert før migreringene, så den droppes aldri automatisk
+  down: () => {
+    throw new MigrationError('Migrering 1 (companies) kan ikke rulles tilbake; slett tabellen manuelt om nødvendig');
+  },
+};
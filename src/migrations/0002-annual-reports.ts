@@ -0,0 +1,18 @@
+import { Migration } from './migration';
+
+export const annualReports: Migration = {
+  version: 2,
+  name: 'annual_reports',
+  up: () => `
+    CREATE TABLE IF NOT EXISTS brreg_annual_reports (
+      organisasjonsnummer TEXT NOT NULL,
+      ar INTEGER NOT NULL,
+      data JSONB NOT NULL,
+      scraped_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (organisasjonsnummer, ar)
+    );
+  `,
+  down: () => `
+    DROP TABLE IF EXISTS brreg_annual_reports;
+  `,
+};
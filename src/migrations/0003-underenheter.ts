@@ -0,0 +1,26 @@
+import { Migration } from './migration';
+
+export const underenheter: Migration = {
+  version: 3,
+  name: 'underenheter',
+  up: ({ companiesTable }) => `
+    CREATE TABLE IF NOT EXISTS brreg_underenheter (
+      organisasjonsnummer TEXT PRIMARY KEY,
+      overordnet_enhet TEXT NOT NULL REFERENCES ${companiesTable} (organisasjonsnummer) ON DELETE CASCADE,
+      navn TEXT,
+      naeringskode1 TEXT,
+      antall_ansatte INTEGER,
+      beliggenhet_postnummer TEXT,
+      beliggenhet_poststed TEXT,
+      beliggenhet_kommunenummer TEXT,
+      beliggenhetsadresse JSONB,
+      data JSONB NOT NULL,
+      last_synced TIMESTAMPTZ DEFAULT NOW()
+    );
+    CREATE INDEX IF NOT EXISTS brreg_underenheter_overordnet_enhet_idx
+      ON brreg_underenheter (overordnet_enhet);
+  `,
+  down: () => `
+    DROP TABLE IF EXISTS brreg_underenheter;
+  `,
+};
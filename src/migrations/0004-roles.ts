@@ -0,0 +1,31 @@
+import { Migration } from './migration';
+
+export const roles: Migration = {
+  version: 4,
+  name: 'roles',
+  up: ({ companiesTable }) => `
+    CREATE TABLE IF NOT EXISTS brreg_roles (
+      id BIGSERIAL PRIMARY KEY,
+      organisasjonsnummer TEXT NOT NULL REFERENCES ${companiesTable} (organisasjonsnummer) ON DELETE CASCADE,
+      rollegruppe_kode TEXT,
+      rollegruppe_beskrivelse TEXT,
+      rolle_kode TEXT NOT NULL,
+      rolle_beskrivelse TEXT,
+      holder_type TEXT NOT NULL CHECK (holder_type IN ('PERSON', 'ENHET')),
+      holder_navn TEXT,
+      person_fodselsdato DATE,
+      holder_organisasjonsnummer TEXT,
+      fratraadt BOOLEAN NOT NULL DEFAULT FALSE,
+      rekkefolge INTEGER,
+      sist_endret DATE,
+      data JSONB NOT NULL,
+      last_synced TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+    CREATE INDEX IF NOT EXISTS brreg_roles_organisasjonsnummer_idx ON brreg_roles (organisasjonsnummer);
+    CREATE INDEX IF NOT EXISTS brreg_roles_person_idx ON brreg_roles (holder_navn, person_fodselsdato) WHERE holder_type = 'PERSON';
+    CREATE INDEX IF NOT EXISTS brreg_roles_holder_orgnr_idx ON brreg_roles (holder_organisasjonsnummer) WHERE holder_type = 'ENHET';
+  `,
+  down: () => `
+    DROP TABLE IF EXISTS brreg_roles;
+  `,
+};
@@ -0,0 +1,33 @@
+import { Migration } from './migration';
+
+export const companyHistory: Migration = {
+  version: 5,
+  name: 'company_history',
+  up: ({ companiesTable }) => `
+    CREATE TABLE IF NOT EXISTS brreg_company_history (
+      id BIGSERIAL PRIMARY KEY,
+      organisasjonsnummer TEXT NOT NULL REFERENCES ${companiesTable} (organisasjonsnummer) ON DELETE CASCADE,
+      navn TEXT,
+      organisasjonsform_kode TEXT,
+      naeringskode1 TEXT,
+      data JSONB NOT NULL,
+      valid_from TIMESTAMPTZ NOT NULL,
+      valid_to TIMESTAMPTZ
+    );
+    CREATE UNIQUE INDEX IF NOT EXISTS brreg_company_history_current_idx
+      ON brreg_company_history (organisasjonsnummer) WHERE valid_to IS NULL;
+    CREATE INDEX IF NOT EXISTS brreg_company_history_orgnr_valid_from_idx
+      ON brreg_company_history (organisasjonsnummer, valid_from);
+
+    -- Start historikken med dagens data for alle eksisterende selskaper
+    INSERT INTO brreg_company_history (organisasjonsnummer, navn, organisasjonsform_kode, naeringskode1, data, valid_from, valid_to)
+    SELECT organisasjonsnummer, navn, organisasjonsform_kode, naeringskode1, data,
+           COALESCE(last_synced, NOW()),
+           CASE WHEN deleted_at IS NULL THEN NULL ELSE GREATEST(deleted_at, COALESCE(last_synced, NOW())) END
+    FROM ${companiesTable}
+    WHERE NOT EXISTS (SELECT 1 FROM brreg_company_history);
+  `,
+  down: () => `
+    DROP TABLE IF EXISTS brreg_company_history;
+  `,
+};
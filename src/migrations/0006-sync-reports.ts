@@ -0,0 +1,34 @@
+import { Migration } from './migration';
+
+export const syncReports: Migration = {
+  version: 6,
+  name: 'sync_reports',
+  up: () => `
+    CREATE TABLE IF NOT EXISTS brreg_sync_runs (
+      id BIGSERIAL PRIMARY KEY,
+      source TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'RUNNING',
+      started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      finished_at TIMESTAMPTZ,
+      processed INTEGER NOT NULL DEFAULT 0,
+      created INTEGER NOT NULL DEFAULT 0,
+      modified INTEGER NOT NULL DEFAULT 0,
+      deleted INTEGER NOT NULL DEFAULT 0,
+      error TEXT
+    );
+    CREATE TABLE IF NOT EXISTS brreg_sync_run_changes (
+      id BIGSERIAL PRIMARY KEY,
+      run_id BIGINT NOT NULL REFERENCES brreg_sync_runs (id) ON DELETE CASCADE,
+      organisasjonsnummer TEXT NOT NULL,
+      change_type TEXT NOT NULL,
+      changed_fields TEXT[] NOT NULL DEFAULT '{}',
+      changes JSONB NOT NULL DEFAULT '[]'::jsonb
+    );
+    CREATE INDEX IF NOT EXISTS brreg_sync_run_changes_run_idx
+      ON brreg_sync_run_changes (run_id, change_type);
+  `,
+  down: () => `
+    DROP TABLE IF EXISTS brreg_sync_run_changes;
+    DROP TABLE IF EXISTS brreg_sync_runs;
+  `,
+};
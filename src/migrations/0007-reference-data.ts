@@ -0,0 +1,43 @@
+import { Migration } from './migration';
+
+export const referenceData: Migration = {
+  version: 7,
+  name: 'reference_data',
+  up: () => `
+    CREATE TABLE IF NOT EXISTS brreg_ref_organisasjonsform (
+      kode TEXT PRIMARY KEY,
+      beskrivelse TEXT,
+      utgaatt DATE,
+      last_synced TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+    CREATE TABLE IF NOT EXISTS brreg_ref_naeringskode (
+      kode TEXT PRIMARY KEY,
+      parent_kode TEXT,
+      nivaa INTEGER NOT NULL,
+      navn TEXT NOT NULL,
+      kortnavn TEXT,
+      seksjon TEXT,
+      last_synced TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+    CREATE INDEX IF NOT EXISTS brreg_ref_naeringskode_seksjon_idx ON brreg_ref_naeringskode (seksjon);
+    CREATE TABLE IF NOT EXISTS brreg_ref_sektorkode (
+      kode TEXT PRIMARY KEY,
+      parent_kode TEXT,
+      nivaa INTEGER NOT NULL,
+      navn TEXT NOT NULL,
+      last_synced TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+    CREATE TABLE IF NOT EXISTS brreg_ref_kommune (
+      kommunenummer TEXT PRIMARY KEY,
+      navn TEXT NOT NULL,
+      fylkesnummer TEXT NOT NULL,
+      last_synced TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `,
+  down: () => `
+    DROP TABLE IF EXISTS brreg_ref_kommune;
+    DROP TABLE IF EXISTS brreg_ref_sektorkode;
+    DROP TABLE IF EXISTS brreg_ref_naeringskode;
+    DROP TABLE IF EXISTS brreg_ref_organisasjonsform;
+  `,
+};
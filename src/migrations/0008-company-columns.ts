@@ -0,0 +1,42 @@
+import { Migration } from './migration';
+
+// Kolonnene fylles av sync:pg for nye rader; eksisterende rader fylles med npm run backfill:pg
+export const companyColumns: Migration = {
+  version: 8,
+  name: 'company_columns',
+  up: ({ companiesTable }) => `
+    ALTER TABLE ${companiesTable}
+      ADD COLUMN IF NOT EXISTS forretningsadresse_kommunenummer TEXT,
+      ADD COLUMN IF NOT EXISTS forretningsadresse_postnummer TEXT,
+      ADD COLUMN IF NOT EXISTS antall_ansatte INTEGER,
+      ADD COLUMN IF NOT EXISTS stiftelsesdato DATE,
+      ADD COLUMN IF NOT EXISTS konkurs BOOLEAN,
+      ADD COLUMN IF NOT EXISTS under_avvikling BOOLEAN,
+      ADD COLUMN IF NOT EXISTS registrert_i_mvaregisteret BOOLEAN;
+    CREATE INDEX IF NOT EXISTS ${companiesTable}_kommunenummer_idx
+      ON ${companiesTable} (forretningsadresse_kommunenummer);
+    CREATE INDEX IF NOT EXISTS ${companiesTable}_postnummer_idx
+      ON ${companiesTable} (forretningsadresse_postnummer);
+    CREATE INDEX IF NOT EXISTS ${companiesTable}_antall_ansatte_idx
+      ON ${companiesTable} (antall_ansatte);
+    CREATE INDEX IF NOT EXISTS ${companiesTable}_stiftelsesdato_idx
+      ON ${companiesTable} (stiftelsesdato);
+    CREATE INDEX IF NOT EXISTS ${companiesTable}_mva_idx
+      ON ${companiesTable} (registrert_i_mvaregisteret);
+    -- Få selskaper er konkurs eller under avvikling, så delindekser holder
+    CREATE INDEX IF NOT EXISTS ${companiesTable}_konkurs_idx
+      ON ${companiesTable} (organisasjonsnummer) WHERE konkurs;
+    CREATE INDEX IF NOT EXISTS ${companiesTable}_under_avvikling_idx
+      ON ${companiesTable} (organisasjonsnummer) WHERE under_avvikling;
+  `,
+  down: ({ companiesTable }) => `
+    ALTER TABLE ${companiesTable}
+      DROP COLUMN IF EXISTS forretningsadresse_kommunenummer,
+      DROP COLUMN IF EXISTS forretningsadresse_postnummer,
+      DROP COLUMN IF EXISTS antall_ansatte,
+      DROP COLUMN IF EXISTS stiftelsesdato,
+      DROP COLUMN IF EXISTS konkurs,
+      DROP COLUMN IF EXISTS under_avvikling,
+      DROP COLUMN IF EXISTS registrert_i_mvaregisteret;
+  `,
+};
@@ -0,0 +1,28 @@
+import { Migration } from './migration';
+
+// search_vector er en generert kolonne, så sync:pg trenger ingen endringer for å holde den oppdatert
+export const companySearch: Migration = {
+  version: 9,
+  name: 'company_search',
+  up: ({ companiesTable }) => `
+    CREATE EXTENSION IF NOT EXISTS pg_trgm;
+    ALTER TABLE ${companiesTable}
+      ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+        setweight(to_tsvector('norwegian', COALESCE(navn, '')), 'A') ||
+        setweight(to_tsvector('norwegian', COALESCE(data->'naeringskode1'->>'beskrivelse', '')), 'C') ||
+        setweight(to_tsvector('norwegian', COALESCE(data->'forretningsadresse'->>'poststed', '')), 'D')
+      ) STORED;
+    CREATE INDEX IF NOT EXISTS ${companiesTable}_search_vector_idx
+      ON ${companiesTable} USING GIN (search_vector);
+    CREATE INDEX IF NOT EXISTS ${companiesTable}_navn_trgm_idx
+      ON ${companiesTable} USING GIN (navn gin_trgm_ops);
+    -- Prefikssøk for autocomplete, også for søk kortere enn ett trigram
+    CREATE INDEX IF NOT EXISTS ${companiesTable}_navn_prefix_idx
+      ON ${companiesTable} (lower(navn) text_pattern_ops);
+  `,
+  down: ({ companiesTable }) => `
+    DROP INDEX IF EXISTS ${companiesTable}_navn_prefix_idx;
+    DROP INDEX IF EXISTS ${companiesTable}_navn_trgm_idx;
+    ALTER TABLE ${companiesTable} DROP COLUMN IF EXISTS search_vector;
+  `,
+};
@@ -0,0 +1,36 @@
+import { Migration } from './migration';
+
+// Indekser for filtrene og sorteringene i GET /api/companies; registreringsdato fylles av sync:pg og backfill:pg
+export const companyListing: Migration = {
+  version: 10,
+  name: 'company_listing',
+  up: ({ companiesTable }) => `
+    ALTER TABLE ${companiesTable} ADD COLUMN IF NOT EXISTS registreringsdato DATE;
+    CREATE INDEX IF NOT EXISTS ${companiesTable}_registreringsdato_idx
+      ON ${companiesTable} (registreringsdato);
+    CREATE INDEX IF NOT EXISTS ${companiesTable}_organisasjonsform_idx
+      ON ${companiesTable} (organisasjonsform_kode);
+    -- Prefikssøk på næringskode, f.eks. 62 eller 62.01
+    CREATE INDEX IF NOT EXISTS ${companiesTable}_naeringskode1_prefix_idx
+      ON ${companiesTable} (naeringskode1 text_pattern_ops);
+
+    -- Keyset-paginering: uttrykkene må være identiske med SORT_KEYS i print-postgres-companies.ts
+    CREATE INDEX IF NOT EXISTS ${companiesTable}_navn_keyset_idx
+      ON ${companiesTable} ((COALESCE(navn, '')), organisasjonsnummer);
+    CREATE INDEX IF NOT EXISTS ${companiesTable}_antall_ansatte_keyset_idx
+      ON ${companiesTable} ((COALESCE(antall_ansatte, -1)), organisasjonsnummer);
+    CREATE INDEX IF NOT EXISTS ${companiesTable}_stiftelsesdato_keyset_idx
+      ON ${companiesTable} ((COALESCE(stiftelsesdato, '0001-01-01'::date)), organisasjonsnummer);
+    CREATE INDEX IF NOT EXISTS ${companiesTable}_registreringsdato_keyset_idx
+      ON ${companiesTable} ((COALESCE(registreringsdato, '0001-01-01'::date)), organisasjonsnummer);
+  `,
+  down: ({ companiesTable }) => `
+    DROP INDEX IF EXISTS ${companiesTable}_registreringsdato_keyset_idx;
+    DROP INDEX IF EXISTS ${companiesTable}_stiftelsesdato_keyset_idx;
+    DROP INDEX IF EXISTS ${companiesTable}_antall_ansatte_keyset_idx;
+    DROP INDEX IF EXISTS ${companiesTable}_navn_keyset_idx;
+    DROP INDEX IF EXISTS ${companiesTable}_naeringskode1_prefix_idx;
+    DROP INDEX IF EXISTS ${companiesTable}_organisasjonsform_idx;
+    ALTER TABLE ${companiesTable} DROP COLUMN IF EXISTS registreringsdato;
+  `,
+};
@@ -0,0 +1,34 @@
+import { Migration } from './migration';
+
+// Nøkkeltall fra årsregnskapene som typede kolonner; fylles av scrape:annual-reports, PDF-scrapingen og backfill:financials
+export const financials: Migration = {
+  version: 11,
+  name: 'financials',
+  up: () => `
+    CREATE TABLE IF NOT EXISTS brreg_financials (
+      organisasjonsnummer TEXT NOT NULL,
+      ar INTEGER NOT NULL,
+      fra_dato DATE,
+      til_dato DATE,
+      valuta TEXT,
+      source TEXT,
+      driftsinntekter NUMERIC,
+      salgsinntekt NUMERIC,
+      driftskostnader NUMERIC,
+      driftsresultat NUMERIC,
+      finansresultat NUMERIC,
+      resultat_for_skatt NUMERIC,
+      aarsresultat NUMERIC,
+      sum_eiendeler NUMERIC,
+      egenkapital NUMERIC,
+      gjeld NUMERIC,
+      lonnskostnader NUMERIC,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (organisasjonsnummer, ar)
+    );
+    CREATE INDEX IF NOT EXISTS brreg_financials_ar_idx ON brreg_financials (ar);
+  `,
+  down: () => `
+    DROP TABLE IF EXISTS brreg_financials;
+  `,
+};
@@ -0,0 +1,35 @@
+import { Migration } from './migration';
+
+// Grunnlaget for likviditetsgrad og totalkapitalrentabilitet, og nøkkeltallene som beregnes fra brreg_financials
+export const financialRatios: Migration = {
+  version: 12,
+  name: 'financial_ratios',
+  up: () => `
+    ALTER TABLE brreg_financials ADD COLUMN IF NOT EXISTS finansinntekter NUMERIC;
+    ALTER TABLE brreg_financials ADD COLUMN IF NOT EXISTS sum_omloepsmidler NUMERIC;
+    ALTER TABLE brreg_financials ADD COLUMN IF NOT EXISTS varer NUMERIC;
+    ALTER TABLE brreg_financials ADD COLUMN IF NOT EXISTS kortsiktig_gjeld NUMERIC;
+    CREATE TABLE IF NOT EXISTS brreg_financial_ratios (
+      organisasjonsnummer TEXT NOT NULL,
+      ar INTEGER NOT NULL,
+      egenkapitalandel DOUBLE PRECISION,
+      likviditetsgrad_1 DOUBLE PRECISION,
+      likviditetsgrad_2 DOUBLE PRECISION,
+      driftsmargin DOUBLE PRECISION,
+      resultatmargin DOUBLE PRECISION,
+      totalkapitalrentabilitet DOUBLE PRECISION,
+      vekst_driftsinntekter DOUBLE PRECISION,
+      -- Hvorfor et nøkkeltall er NULL, f.eks. {"likviditetsgrad_1": "mangler kortsiktig_gjeld"}
+      mangler JSONB NOT NULL DEFAULT '{}'::jsonb,
+      computed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (organisasjonsnummer, ar)
+    );
+  `,
+  down: () => `
+    DROP TABLE IF EXISTS brreg_financial_ratios;
+    ALTER TABLE brreg_financials DROP COLUMN IF EXISTS kortsiktig_gjeld;
+    ALTER TABLE brreg_financials DROP COLUMN IF EXISTS varer;
+    ALTER TABLE brreg_financials DROP COLUMN IF EXISTS sum_omloepsmidler;
+    ALTER TABLE brreg_financials DROP COLUMN IF EXISTS finansinntekter;
+  `,
+};
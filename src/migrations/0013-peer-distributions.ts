@@ -0,0 +1,27 @@
+import { Migration } from './migration';
+
+// Fordelingen av nøkkeltall blant sammenlignbare selskaper; skrives på nytt av refreshPeerDistributions()
+export const peerDistributions: Migration = {
+  version: 13,
+  name: 'peer_distributions',
+  up: () => `
+    CREATE TABLE IF NOT EXISTS brreg_peer_distributions (
+      ar INTEGER NOT NULL,
+      metric TEXT NOT NULL,
+      naering_depth SMALLINT NOT NULL,
+      naeringskode TEXT NOT NULL,
+      -- '' betyr alle størrelser / hele landet
+      storrelse TEXT NOT NULL,
+      omradetype TEXT NOT NULL,
+      omrade TEXT NOT NULL,
+      antall INTEGER NOT NULL,
+      -- Persentil 0, 5, ..., 100
+      percentiles DOUBLE PRECISION[] NOT NULL,
+      refreshed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (ar, metric, naering_depth, naeringskode, storrelse, omradetype, omrade)
+    );
+  `,
+  down: () => `
+    DROP TABLE IF EXISTS brreg_peer_distributions;
+  `,
+};
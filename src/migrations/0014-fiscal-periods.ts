@@ -0,0 +1,128 @@
+import { Migration } from './migration';
+
+// Regnskapsperioder som ikke følger kalenderåret (avvikende regnskapsår, forkortet første år, endret
+// periode) kan ende i samme år, så årsregnskap, nøkkeltall og forholdstall nøkles på perioden i stedet
+// for året. ar beholdes som året perioden slutter i. Rader uten gyldig periode regnes som kalenderåret.
+export const fiscalPeriods: Migration = {
+  version: 14,
+  name: 'fiscal_periods',
+  up: () => `
+    -- "2023" for kalenderår, "2022/2023" for avvikende regnskapsår, og datoene i tillegg når perioden ikke er 12 måneder
+    CREATE OR REPLACE FUNCTION brreg_fiscal_year_label(fra_dato DATE, til_dato DATE) RETURNS TEXT
+      LANGUAGE sql IMMUTABLE AS $$
+        SELECT CASE
+            WHEN extract(year FROM fra_dato) = extract(year FROM til_dato) THEN extract(year FROM til_dato)::int::text
+            ELSE extract(year FROM fra_dato)::int::text || '/' || extract(year FROM til_dato)::int::text
+          END
+          || CASE
+            WHEN (fra_dato + interval '1 year')::date - 1 = til_dato THEN ''
+            ELSE ' (' || to_char(fra_dato, 'DD.MM.YYYY') || '–' || to_char(til_dato, 'DD.MM.YYYY') || ')'
+          END
+      $$;
+
+    ALTER TABLE brreg_annual_reports
+      ADD COLUMN IF NOT EXISTS fra_dato DATE,
+      ADD COLUMN IF NOT EXISTS til_dato DATE;
+
+    WITH periods AS (
+      SELECT
+        organisasjonsnummer,
+        ar,
+        COALESCE(
+          data->'regnskap'->'periode'->>'fraDato',
+          data->'raw'->'regnskapsperiode'->>'fraDato',
+          data->'summary'->'regnskapsperiode'->>'fraDato'
+        ) AS fra,
+        COALESCE(
+          data->'regnskap'->'periode'->>'tilDato',
+          data->'raw'->'regnskapsperiode'->>'tilDato',
+          data->'summary'->'regnskapsperiode'->>'tilDato'
+        ) AS til
+      FROM brreg_annual_reports
+    )
+    UPDATE brreg_annual_reports r
+    SET fra_dato = CASE WHEN p.fra ~ '^[0-9]{4}-[0-9]{2}-[0-9]{2}$' THEN p.fra::date END,
+        til_dato = CASE WHEN p.til ~ '^[0-9]{4}-[0-9]{2}-[0-9]{2}$' THEN p.til::date END
+    FROM periods p
+    WHERE p.organisasjonsnummer = r.organisasjonsnummer AND p.ar = r.ar;
+    UPDATE brreg_annual_reports
+    SET fra_dato = make_date(ar, 1, 1), til_dato = make_date(ar, 12, 31)
+    WHERE fra_dato IS NULL OR til_dato IS NULL OR extract(year FROM til_dato) <> ar OR fra_dato > til_dato;
+
+    ALTER TABLE brreg_annual_reports
+      ALTER COLUMN fra_dato SET NOT NULL,
+      ALTER COLUMN til_dato SET NOT NULL,
+      DROP CONSTRAINT brreg_annual_reports_pkey,
+      ADD PRIMARY KEY (organisasjonsnummer, fra_dato, til_dato),
+      ADD CONSTRAINT brreg_annual_reports_periode_check CHECK (fra_dato <= til_dato),
+      ADD COLUMN regnskapsaar TEXT GENERATED ALWAYS AS (brreg_fiscal_year_label(fra_dato, til_dato)) STORED;
+    CREATE INDEX IF NOT EXISTS brreg_annual_reports_ar_idx ON brreg_annual_reports (organisasjonsnummer, ar);
+
+    -- Nøkkeltallene får perioden til årsregnskapet de ble skrevet fra
+    UPDATE brreg_financials f
+    SET fra_dato = r.fra_dato, til_dato = r.til_dato
+    FROM brreg_annual_reports r
+    WHERE r.organisasjonsnummer = f.organisasjonsnummer AND r.ar = f.ar;
+    UPDATE brreg_financials
+    SET fra_dato = make_date(ar, 1, 1), til_dato = make_date(ar, 12, 31)
+    WHERE fra_dato IS NULL OR til_dato IS NULL OR extract(year FROM til_dato) <> ar OR fra_dato > til_dato;
+
+    ALTER TABLE brreg_financials
+      ALTER COLUMN fra_dato SET NOT NULL,
+      ALTER COLUMN til_dato SET NOT NULL,
+      DROP CONSTRAINT brreg_financials_pkey,
+      ADD PRIMARY KEY (organisasjonsnummer, fra_dato, til_dato);
+
+    ALTER TABLE brreg_financial_ratios
+      ADD COLUMN IF NOT EXISTS fra_dato DATE,
+      ADD COLUMN IF NOT EXISTS til_dato DATE;
+    UPDATE brreg_financial_ratios q
+    SET fra_dato = f.fra_dato, til_dato = f.til_dato
+    FROM brreg_financials f
+    WHERE f.organisasjonsnummer = q.organisasjonsnummer AND f.ar = q.ar;
+    -- Forholdstall uten nøkkeltall beregnes aldri på nytt
+    DELETE FROM brreg_financial_ratios WHERE fra_dato IS NULL;
+
+    ALTER TABLE brreg_financial_ratios
+      ALTER COLUMN fra_dato SET NOT NULL,
+      ALTER COLUMN til_dato SET NOT NULL,
+      DROP CONSTRAINT brreg_financial_ratios_pkey,
+      ADD PRIMARY KEY (organisasjonsnummer, fra_dato, til_dato);
+  `,
+  down: () => `
+    -- Bare den siste perioden per år beholdes
+    DELETE FROM brreg_financial_ratios q
+    USING brreg_financial_ratios n
+    WHERE n.organisasjonsnummer = q.organisasjonsnummer AND n.ar = q.ar
+      AND (n.til_dato, n.fra_dato) > (q.til_dato, q.fra_dato);
+    ALTER TABLE brreg_financial_ratios
+      DROP CONSTRAINT brreg_financial_ratios_pkey,
+      ADD PRIMARY KEY (organisasjonsnummer, ar),
+      DROP COLUMN fra_dato,
+      DROP COLUMN til_dato;
+
+    DELETE FROM brreg_financials f
+    USING brreg_financials n
+    WHERE n.organisasjonsnummer = f.organisasjonsnummer AND n.ar = f.ar
+      AND (n.til_dato, n.fra_dato) > (f.til_dato, f.fra_dato);
+    ALTER TABLE brreg_financials
+      DROP CONSTRAINT brreg_financials_pkey,
+      ADD PRIMARY KEY (organisasjonsnummer, ar),
+      ALTER COLUMN fra_dato DROP NOT NULL,
+      ALTER COLUMN til_dato DROP NOT NULL;
+
+    DELETE FROM brreg_annual_reports r
+    USING brreg_annual_reports n
+    WHERE n.organisasjonsnummer = r.organisasjonsnummer AND n.ar = r.ar
+      AND (n.til_dato, n.fra_dato) > (r.til_dato, r.fra_dato);
+    DROP INDEX IF EXISTS brreg_annual_reports_ar_idx;
+    ALTER TABLE brreg_annual_reports
+      DROP CONSTRAINT brreg_annual_reports_pkey,
+      DROP CONSTRAINT brreg_annual_reports_periode_check,
+      ADD PRIMARY KEY (organisasjonsnummer, ar),
+      DROP COLUMN regnskapsaar,
+      DROP COLUMN fra_dato,
+      DROP COLUMN til_dato;
+    DROP FUNCTION IF EXISTS brreg_fiscal_year_label(DATE, DATE);
+  `,
+};
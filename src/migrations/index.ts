@@ -0,0 +1,36 @@
+/**
+ * Alle migreringer i rekkefølge. Nye migreringer legges til nederst med neste versjonsnummer.
+ */
+
+import { Migration } from './migration';
+import { companies } from './0001-companies';
+import { annualReports } from './0002-annual-reports';
+import { underenheter } from './0003-underenheter';
+import { roles } from './0004-roles';
+import { companyHistory } from './0005-company-history';
+import { syncReports } from './0006-sync-reports';
+import { referenceData } from './0007-reference-data';
+import { companyColumns } from './0008-company-columns';
+import { companySearch } from './0009-company-search';
+import { companyListing } from './0010-company-listing';
+import { financials } from './0011-financials';
+import { financialRatios } from './0012-financial-ratios';
+import { peerDistributions } from './0013-peer-distributions';
+import { fiscalPeriods } from './0014-fiscal-periods';
+
+export const MIGRATIONS: Migration[] = [
+  companies,
+  annualReports,
+  underenheter,
+  roles,
+  companyHistory,
+  syncReports,
+  referenceData,
+  companyColumns,
+  companySearch,
+  companyListing,
+  financials,
+  financialRatios,
+  peerDistributions,
+  fiscalPeriods,
+];
@@ -0,0 +1,24 @@
+/**
+ * En migrering er ren SQL for opp- og nedgradering. Sjekksummen beregnes av SQL-en
+ * som genereres for `up` med en fast kontekst, så en migrering som er kjørt må aldri
+ * endres i etterkant – legg heller til en ny. En `down` som ikke kan reverseres kaster
+ * MigrationError.
+ */
+export interface MigrationContext {
+  /** Navnet på selskapstabellen (POSTGRES_TABLE, standard brreg_companies) */
+  companiesTable: string;
+}
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (context: MigrationContext) => string;
+  down: (context: MigrationContext) => string;
+}
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
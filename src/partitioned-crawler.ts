@@ -0,0 +1,199 @@
+/**
+ * Partisjonert søk mot /enheter for å komme forbi grensen på 10 000 treff per søk.
+ *
+ * API-et tillater kun size * (page+1) <= 10 000. Crawleren teller treffene for et filter,
+ * og hvis de er for mange deles søket opp – først på organisasjonsform, deretter ved å
+ * halvere registreringsdato-intervallet – helt til hver partisjon kan pagineres ferdig.
+ *
+ * Resultatet skrives til et FetchCheckpoint, og ferdige partisjoner hoppes over ved gjenopptak.
+ */
+
+import { HttpClient } from './http-client';
+import { FetchCheckpoint } from './fetch-checkpoint';
+import { ApiResponse, Enhet } from './types';
+import { validateRecord } from './validation';
+
+const MAX_RESULT_WINDOW = 10000;
+const PAGE_SIZE = 1000;
+// Enhetsregisteret ble opprettet i 1995; eldre enheter har registreringsdato fra overføringen
+const EARLIEST_REGISTRATION_DATE = '1900-01-01';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PartitionFilter {
+  kommunenummer?: string;
+  organisasjonsform?: string;
+  naeringskode?: string;
+  /** Registreringsdato i Enhetsregisteret, YYYY-MM-DD (inklusiv) */
+  fraRegistreringsdato?: string;
+  tilRegistreringsdato?: string;
+}
+
+export interface CrawlResult {
+  partitions: number;
+  skipped: number;
+  fetched: number;
+  /** Partisjoner som ikke kunne deles videre og derfor kun ble hentet delvis */
+  truncated: PartitionFilter[];
+}
+
+interface OrganisasjonsformerResponse {
+  _embedded?: {
+    organisasjonsformer?: Array<{ kode: string }>;
+  };
+}
+
+function partitionKey(filter: PartitionFilter): string {
+  return JSON.stringify(
+    Object.fromEntries(Object.entries(filter).filter(([, value]) => value).sort(([a], [b]) => a.localeCompare(b)))
+  );
+}
+
+function toQuery(filter: PartitionFilter): Record<string, string> {
+  const params: Record<string, string> = {};
+  if (filter.kommunenummer) params.kommunenummer = filter.kommunenummer;
+  if (filter.organisasjonsform) params.organisasjonsform = filter.organisasjonsform;
+  if (filter.naeringskode) params.naeringskode = filter.naeringskode;
+  if (filter.fraRegistreringsdato) params.fraRegistreringsdatoEnhetsregisteret = filter.fraRegistreringsdato;
+  if (filter.tilRegistreringsdato) params.tilRegistreringsdatoEnhetsregisteret = filter.tilRegistreringsdato;
+  return params;
+}
+
+function describe(filter: PartitionFilter): string {
+  const parts = Object.entries(toQuery(filter)).map(([key, value]) => `${key}=${value}`);
+  return parts.length ? parts.join(' ') : '(uten filter)';
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+export class PartitionedCrawler {
+  private organisasjonsformer: string[] | null = null;
+  private seen = new Set<string>();
+  private completed = new Set<string>();
+  private result: CrawlResult = { partitions: 0, skipped: 0, fetched: 0, truncated: [] };
+
+  constructor(private readonly client: HttpClient, private readonly checkpoint: FetchCheckpoint) {}
+
+  /**
+   * Hent alle enheter som matcher filteret, med rekursiv oppdeling av for store partisjoner
+   */
+  async crawl(filter: PartitionFilter = {}): Promise<CrawlResult> {
+    this.seen = await this.checkpoint.loadProcessedOrgnumre();
+    this.completed = new Set(this.checkpoint.state.completedPartitions);
+    this.result = { partitions: 0, skipped: 0, fetched: 0, truncated: [] };
+
+    if (this.checkpoint.hasProgress()) {
+      console.log(`Gjenopptar fra sjekkpunkt: ${this.completed.size} ferdige partisjoner, ${this.seen.size} enheter`);
+    }
+
+    await this.crawlPartition(filter);
+    return this.result;
+  }
+
+  private async crawlPartition(filter: PartitionFilter): Promise<void> {
+    const key = partitionKey(filter);
+    if (this.completed.has(key)) {
+      this.result.skipped += 1;
+      return;
+    }
+
+    const total = await this.countHits(filter);
+    if (total === 0) {
+      await this.markCompleted(key);
+      return;
+    }
+
+    if (total > MAX_RESULT_WINDOW) {
+      const children = await this.subdivide(filter);
+      if (children) {
+        console.log(`${describe(filter)}: ${total} treff, deler opp i ${children.length} partisjoner`);
+        for (const child of children) {
+          await this.crawlPartition(child);
+        }
+        await this.markCompleted(key);
+        return;
+      }
+
+      console.warn(`${describe(filter)}: ${total} treff kan ikke deles videre, henter kun de første ${MAX_RESULT_WINDOW}`);
+      this.result.truncated.push(filter);
+    }
+
+    await this.fetchPartition(filter, Math.min(total, MAX_RESULT_WINDOW));
+    this.result.partitions += 1;
+    await this.markCompleted(key);
+    console.log(`${describe(filter)}: ferdig (${total} treff, totalt ${this.seen.size} enheter)`);
+  }
+
+  /**
+   * Del et filter i mindre, ikke-overlappende filtre. Returnerer null hvis det ikke lar seg gjøre.
+   */
+  private async subdivide(filter: PartitionFilter): Promise<PartitionFilter[] | null> {
+    if (!filter.organisasjonsform) {
+      const former = await this.getOrganisasjonsformer();
+      if (former.length > 0) {
+        return former.map(kode => ({ ...filter, organisasjonsform: kode }));
+      }
+    }
+
+    const from = filter.fraRegistreringsdato ?? EARLIEST_REGISTRATION_DATE;
+    const to = filter.tilRegistreringsdato ?? new Date().toISOString().slice(0, 10);
+    const span = daysBetween(from, to);
+    if (span < 1) {
+      return null;
+    }
+
+    const middle = addDays(from, Math.floor(span / 2));
+    return [
+      { ...filter, fraRegistreringsdato: from, tilRegistreringsdato: middle },
+      { ...filter, fraRegistreringsdato: addDays(middle, 1), tilRegistreringsdato: to },
+    ];
+  }
+
+  private async countHits(filter: PartitionFilter): Promise<number> {
+    const response = await this.client.get<ApiResponse<Enhet>>('/enheter', {
+      params: { ...toQuery(filter), page: 0, size: 1 },
+    });
+    return response.data.page?.totalElements ?? 0;
+  }
+
+  private async fetchPartition(filter: PartitionFilter, limit: number): Promise<void> {
+    for (let page = 0; page * PAGE_SIZE < limit; page++) {
+      const response = await this.client.get<ApiResponse<Enhet>>('/enheter', {
+        params: { ...toQuery(filter), page, size: PAGE_SIZE },
+      });
+      const enheter = response.data._embedded?.enheter || [];
+      if (enheter.length === 0) {
+        break;
+      }
+
+      const inserted = enheter.filter(enhet => {
+        if (!enhet.organisasjonsnummer || this.seen.has(enhet.organisasjonsnummer) || !validateRecord('enhet', enhet)) {
+          return false;
+        }
+        this.seen.add(enhet.organisasjonsnummer);
+        return true;
+      });
+
+      await this.checkpoint.append(inserted);
+      this.result.fetched += inserted.length;
+    }
+  }
+
+  private async markCompleted(key: string): Promise<void> {
+    this.completed.add(key);
+    await this.checkpoint.append([], { completedPartition: key });
+  }
+
+  private async getOrganisasjonsformer(): Promise<string[]> {
+    if (!this.organisasjonsformer) {
+      const response = await this.client.get<OrganisasjonsformerResponse>('/organisasjonsformer');
+      this.organisasjonsformer = (response.data._embedded?.organisasjonsformer || []).map(form => form.kode);
+    }
+    return this.organisasjonsformer;
+  }
+}
@@ -0,0 +1,341 @@
+/**
+ * Sammenligning med andre selskaper i samme bransje
+ *
+ * Sammenlignbare selskaper har samme næringskode (på valgt nivå), og eventuelt samme
+ * størrelse (antall ansatte) og fylke eller kommune. Fordelingen av driftsinntekter,
+ * driftsmargin og egenkapitalandel per gruppe og år beregnes på forhånd i
+ * brreg_peer_distributions, så et oppslag er bare å plassere selskapet i fordelingen.
+ *
+ * Bruk:
+ *   npm run refresh:benchmarks
+ */
+
+import { QueryConfig } from 'pg';
+
+import { migrateUp } from './migrate';
+import { closePool, getPool, PostgresClient, withClient } from './db';
+import { FINANCIAL_RATIOS_TABLE } from './financial-ratios';
+import { getPostgresEnvConfig, sanitizeIdentifier } from './postgres';
+
+export const PEER_DISTRIBUTIONS_TABLE = 'brreg_peer_distributions';
+
+export const BENCHMARK_METRICS = ['driftsinntekter', 'driftsmargin', 'egenkapitalandel'] as const;
+
+export type BenchmarkMetric = (typeof BENCHMARK_METRICS)[number];
+
+export type PeerArea = 'fylke' | 'kommune';
+
+export interface BenchmarkOptions {
+  /** Antall siffer i næringskoden som må være like: 2 (næring) til 5 (full kode) */
+  depth: number;
+  /** Bare selskaper i samme størrelsesgruppe (antall ansatte) */
+  storrelse: boolean;
+  omrade?: PeerArea;
+  /** Regnskapsår; standard er selskapets siste år med nøkkeltall */
+  ar?: number;
+}
+
+export interface MetricBenchmark {
+  value: number | null;
+  /** Andel av de sammenlignbare selskapene med lavere verdi, 0–100 */
+  percentile: number | null;
+  peers: number;
+  p25: number | null;
+  median: number | null;
+  p75: number | null;
+  /** Hvorfor percentile er null */
+  reason?: string;
+}
+
+export interface CompanyBenchmark {
+  organisasjonsnummer: string;
+  ar: number;
+  peerGroup: {
+    naeringskode: string;
+    depth: number;
+    storrelse: string | null;
+    omrade: { type: PeerArea; kode: string } | null;
+  };
+  metrics: Record<BenchmarkMetric, MetricBenchmark>;
+  refreshed_at: Date | string | null;
+}
+
+export class BenchmarkQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BenchmarkQueryError';
+  }
+}
+
+// Persentilene som lagres: 0, 5, ..., 100
+const PERCENTILE_STEP = 5;
+const PERCENTILES = Array.from({ length: 100 / PERCENTILE_STEP + 1 }, (_, index) => (index * PERCENTILE_STEP) / 100);
+// Mindre grupper gir ingen meningsfull fordeling
+const MIN_PEERS = Number(process.env.BENCHMARK_MIN_PEERS ?? '5');
+const REFRESH_TIMEOUT_MS = Number(process.env.BENCHMARK_REFRESH_TIMEOUT_MS ?? '600000');
+
+// Næringskoder har formatet 62.010; nivå 2 er "62", nivå 3 er "62.0" osv.
+const DEPTH_PREFIX_LENGTH: Record<number, number> = { 2: 2, 3: 4, 4: 5, 5: 6 };
+
+const SIZE_BANDS: Array<[string, number, number | null]> = [
+  ['0', 0, 0],
+  ['1-4', 1, 4],
+  ['5-9', 5, 9],
+  ['10-19', 10, 19],
+  ['20-49', 20, 49],
+  ['50-99', 50, 99],
+  ['100-249', 100, 249],
+  ['250+', 250, null],
+];
+
+const SIZE_BAND_SQL = `CASE ${SIZE_BANDS.map(
+  ([label, min, max]) => `WHEN c.antall_ansatte >= ${min}${max === null ? '' : ` AND c.antall_ansatte <= ${max}`} THEN '${label}'`,
+).join(' ')} END`;
+
+export function sizeBand(antallAnsatte: number | null): string | null {
+  if (antallAnsatte === null) {
+    return null;
+  }
+  const band = SIZE_BANDS.find(([, min, max]) => antallAnsatte >= min && (max === null || antallAnsatte <= max));
+  return band ? band[0] : null;
+}
+
+export function parseBenchmarkOptions(query: Record<string, unknown>): BenchmarkOptions {
+  const depth = query.depth === undefined ? 2 : Number(query.depth);
+  if (!DEPTH_PREFIX_LENGTH[depth]) {
+    throw new BenchmarkQueryError('depth må være 2, 3, 4 eller 5');
+  }
+
+  const omrade = query.omrade;
+  if (omrade !== undefined && omrade !== '' && omrade !== 'fylke' && omrade !== 'kommune') {
+    throw new BenchmarkQueryError('omrade må være fylke eller kommune');
+  }
+
+  let ar: number | undefined;
+  if (query.ar !== undefined && query.ar !== '') {
+    ar = Number(query.ar);
+    if (!Number.isInteger(ar)) {
+      throw new BenchmarkQueryError('ar må være et årstall');
+    }
+  }
+
+  return {
+    depth,
+    storrelse: query.storrelse === 'true',
+    omrade: omrade ? (omrade as PeerArea) : undefined,
+    ar,
+  };
+}
+
+/**
+ * Plasser value i fordelingen. Like persentilverdier (mange selskaper med samme verdi) gir
+ * midten av intervallet, ellers interpoleres det lineært mellom nabopersentilene.
+ */
+export function percentileOf(value: number, percentiles: number[]): number {
+  const last = percentiles.length - 1;
+  if (value < percentiles[0]) {
+    return 0;
+  }
+  if (value > percentiles[last]) {
+    return 100;
+  }
+
+  const lower = percentiles.findIndex((percentile) => percentile >= value);
+  let upper = last;
+  while (percentiles[upper] > value) {
+    upper -= 1;
+  }
+
+  const position =
+    lower <= upper
+      ? (lower + upper) / 2
+      : upper + (value - percentiles[upper]) / (percentiles[lower] - percentiles[upper]);
+  return Math.round(position * PERCENTILE_STEP * 10) / 10;
+}
+
+/**
+ * Beregn fordelingene på nytt for alle år og alle kombinasjoner av næringsnivå, størrelse og område
+ */
+export async function refreshPeerDistributions(client: PostgresClient): Promise<number> {
+  const tableName = sanitizeIdentifier(getPostgresEnvConfig().tableName);
+  const startedAt = Date.now();
+
+  await client.query('BEGIN');
+  try {
+    // Poolen setter statement_timeout for vanlige spørringer; dette er én stor aggregering
+    await client.query(`SET LOCAL statement_timeout = ${REFRESH_TIMEOUT_MS}`);
+    await client.query(`DELETE FROM ${PEER_DISTRIBUTIONS_TABLE}`);
+    const result = await client.query({
+      text: `
+        WITH base AS (
+          -- Ett regnskap per selskap og år: den siste perioden som slutter i året
+          SELECT DISTINCT ON (f.organisasjonsnummer, f.ar)
+            f.ar,
+            c.naeringskode1,
+            COALESCE(${SIZE_BAND_SQL}, 'ukjent') AS storrelse,
+            COALESCE(left(c.forretningsadresse_kommunenummer, 2), 'ukjent') AS fylke,
+            COALESCE(c.forretningsadresse_kommunenummer, 'ukjent') AS kommune,
+            f.driftsinntekter::float8 AS driftsinntekter,
+            q.driftsmargin,
+            q.egenkapitalandel
+          FROM brreg_financials f
+          JOIN ${tableName} c ON c.organisasjonsnummer = f.organisasjonsnummer
+          LEFT JOIN ${FINANCIAL_RATIOS_TABLE} q
+            ON q.organisasjonsnummer = f.organisasjonsnummer AND q.fra_dato = f.fra_dato AND q.til_dato = f.til_dato
+          WHERE c.deleted_at IS NULL AND c.naeringskode1 IS NOT NULL
+          ORDER BY f.organisasjonsnummer, f.ar, f.til_dato DESC, f.fra_dato DESC
+        ),
+        observations AS (
+          SELECT base.ar, base.storrelse, base.fylke, base.kommune, d.depth,
+                 left(base.naeringskode1, d.prefix_length) AS naeringskode, m.metric, m.value
+          FROM base
+          CROSS JOIN LATERAL (
+            VALUES ${BENCHMARK_METRICS.map((metric) => `('${metric}', base.${metric})`).join(', ')}
+          ) m(metric, value)
+          CROSS JOIN (
+            VALUES ${Object.entries(DEPTH_PREFIX_LENGTH).map(([depth, length]) => `(${depth}, ${length})`).join(', ')}
+          ) d(depth, prefix_length)
+          WHERE m.value IS NOT NULL
+        )
+        INSERT INTO ${PEER_DISTRIBUTIONS_TABLE}
+          (ar, metric, naering_depth, naeringskode, storrelse, omradetype, omrade, antall, percentiles)
+        SELECT
+          ar, metric, depth, naeringskode,
+          CASE WHEN GROUPING(storrelse) = 1 THEN '' ELSE storrelse END,
+          CASE WHEN GROUPING(fylke) = 0 THEN 'fylke' WHEN GROUPING(kommune) = 0 THEN 'kommune' ELSE '' END,
+          CASE WHEN GROUPING(fylke) = 0 THEN fylke WHEN GROUPING(kommune) = 0 THEN kommune ELSE '' END,
+          count(*),
+          percentile_cont($1::float8[]) WITHIN GROUP (ORDER BY value)
+        FROM observations
+        GROUP BY ar, metric, depth, naeringskode,
+          GROUPING SETS ((), (storrelse), (fylke), (kommune), (storrelse, fylke), (storrelse, kommune))
+        HAVING count(*) >= $2
+      `,
+      values: [PERCENTILES, MIN_PEERS],
+      query_timeout: REFRESH_TIMEOUT_MS,
+    } as QueryConfig);
+    await client.query('COMMIT');
+
+    console.log(`Beregnet ${result.rowCount ?? 0} fordelinger for sammenligning på ${Date.now() - startedAt} ms`);
+    return result.rowCount ?? 0;
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Hvor selskapet ligger blant sammenlignbare selskaper. Returnerer null hvis selskapet er ukjent
+ * eller mangler næringskode eller nøkkeltall for året.
+ */
+export async function fetchCompanyBenchmark(
+  organisasjonsnummer: string,
+  options: BenchmarkOptions,
+): Promise<CompanyBenchmark | null> {
+  const tableName = sanitizeIdentifier(getPostgresEnvConfig().tableName);
+
+  return withClient(async (client) => {
+    const companyResult = await client.query<{
+      naeringskode1: string | null;
+      antall_ansatte: number | null;
+      kommune: string | null;
+      ar: number | null;
+      driftsinntekter: number | null;
+      driftsmargin: number | null;
+      egenkapitalandel: number | null;
+    }>(
+      `
+        SELECT c.naeringskode1, c.antall_ansatte, c.forretningsadresse_kommunenummer AS kommune,
+               f.ar, f.driftsinntekter::float8 AS driftsinntekter, q.driftsmargin, q.egenkapitalandel
+        FROM ${tableName} c
+        LEFT JOIN brreg_financials f ON f.organisasjonsnummer = c.organisasjonsnummer ${options.ar ? 'AND f.ar = $2' : ''}
+        LEFT JOIN ${FINANCIAL_RATIOS_TABLE} q
+          ON q.organisasjonsnummer = f.organisasjonsnummer AND q.fra_dato = f.fra_dato AND q.til_dato = f.til_dato
+        WHERE c.organisasjonsnummer = $1
+        ORDER BY f.til_dato DESC NULLS LAST, f.fra_dato DESC
+        LIMIT 1
+      `,
+      options.ar ? [organisasjonsnummer, options.ar] : [organisasjonsnummer],
+    );
+
+    // Ukjent selskap, ingen nøkkeltall for året eller ingen næringskode å sammenligne på
+    const company = companyResult.rows[0];
+    if (!company || company.ar === null || !company.naeringskode1) {
+      return null;
+    }
+
+    const naeringskode = company.naeringskode1.slice(0, DEPTH_PREFIX_LENGTH[options.depth]);
+    const storrelse = options.storrelse ? sizeBand(company.antall_ansatte) ?? 'ukjent' : '';
+    const omradeKode = options.omrade === 'fylke' ? company.kommune?.slice(0, 2) : company.kommune;
+    const omrade = options.omrade ? omradeKode ?? 'ukjent' : '';
+
+    const distributionResult = await client.query<{
+      metric: BenchmarkMetric;
+      antall: number;
+      percentiles: number[];
+      refreshed_at: Date | string;
+    }>(
+      `
+        SELECT metric, antall, percentiles, refreshed_at
+        FROM ${PEER_DISTRIBUTIONS_TABLE}
+        WHERE ar = $1 AND naering_depth = $2 AND naeringskode = $3
+          AND storrelse = $4 AND omradetype = $5 AND omrade = $6
+      `,
+      [company.ar, options.depth, naeringskode, storrelse, options.omrade ?? '', omrade],
+    );
+    const distributions = new Map(distributionResult.rows.map((row) => [row.metric, row]));
+
+    const metrics = {} as Record<BenchmarkMetric, MetricBenchmark>;
+    for (const metric of BENCHMARK_METRICS) {
+      const value = company[metric];
+      const distribution = distributions.get(metric);
+      const quartile = (p: number) => distribution?.percentiles[p / PERCENTILE_STEP] ?? null;
+      metrics[metric] = {
+        value,
+        percentile: value !== null && distribution ? percentileOf(value, distribution.percentiles) : null,
+        peers: distribution?.antall ?? 0,
+        p25: quartile(25),
+        median: quartile(50),
+        p75: quartile(75),
+      };
+      if (value === null) {
+        metrics[metric].reason = `${metric} mangler for ${company.ar}`;
+      } else if (!distribution) {
+        metrics[metric].reason = `færre enn ${MIN_PEERS} sammenlignbare selskaper`;
+      }
+    }
+
+    return {
+      organisasjonsnummer,
+      ar: company.ar,
+      peerGroup: {
+        naeringskode,
+        depth: options.depth,
+        storrelse: storrelse || null,
+        omrade: options.omrade ? { type: options.omrade, kode: omrade } : null,
+      },
+      metrics,
+      refreshed_at: distributionResult.rows[0]?.refreshed_at ?? null,
+    };
+  });
+}
+
+async function main() {
+  const client = await getPool().connect();
+
+  try {
+    await migrateUp(client, { quiet: true });
+    const count = await refreshPeerDistributions(client);
+    console.log(`✅ Oppdaterte ${count} fordelinger i ${PEER_DISTRIBUTIONS_TABLE}`);
+  } finally {
+    client.release();
+    await closePool();
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('Kunne ikke beregne fordelinger for sammenligning', error);
+    process.exit(1);
+  });
+}
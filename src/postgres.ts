@@ -1,5 +1,4 @@
 import dotenv from 'dotenv';
-import { Client } from 'pg';
 
 dotenv.config();
 
@@ -39,19 +38,6 @@ export function getPostgresEnvConfig(): PostgresEnvConfig {
   };
 }
 
-export function createPostgresClient(config: PostgresEnvConfig) {
-  return new Client({
-    host: config.host,
-    port: config.port,
-    database: config.database,
-    user: config.user,
-    password: config.password,
-    ssl: parseSslSetting(config.ssl),
-    connectionTimeoutMillis: 10000, // 10 sekunder timeout for tilkobling
-    query_timeout: 30000, // 30 sekunder timeout for queries
-  });
-}
-
 export function sanitizeIdentifier(identifier: string) {
   if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(identifier)) {
     throw new Error(`Invalid table name: ${identifier}. Use only letters, numbers, and underscores.`);
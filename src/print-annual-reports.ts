@@ -1,30 +1,30 @@
-import { createPostgresClient, getPostgresEnvConfig } from './postgres';
+import { closePool, query } from './db';
 
 interface AnnualReportRow {
   organisasjonsnummer: string;
   ar: number;
+  regnskapsaar: string;
+  fra_dato: string;
+  til_dato: string;
   data: Record<string, unknown>;
   scraped_at: Date | string | null;
 }
 
 async function main() {
-  const postgresConfig = getPostgresEnvConfig();
-  const client = createPostgresClient(postgresConfig);
-
   try {
-    await client.connect();
-    console.log('Koblet til databasen\n');
-
     // Hent alle årsregnskap
-    const result = await client.query<AnnualReportRow>(
+    const result = await query<AnnualReportRow>(
       `
         SELECT 
           organisasjonsnummer,
           ar,
+          regnskapsaar,
+          to_char(fra_dato, 'YYYY-MM-DD') AS fra_dato,
+          to_char(til_dato, 'YYYY-MM-DD') AS til_dato,
           data,
           scraped_at
         FROM brreg_annual_reports
-        ORDER BY organisasjonsnummer, ar DESC
+        ORDER BY organisasjonsnummer, til_dato DESC, fra_dato DESC
       `,
     );
 
@@ -49,12 +49,13 @@ async function main() {
       console.log(`\n${'='.repeat(60)}`);
       console.log(`Organisasjonsnummer: ${orgnr}`);
       console.log(`Antall årsregnskap: ${reports.length}`);
-      console.log(`År: ${reports.map(r => r.ar).join(', ')}`);
+      console.log(`År: ${reports.map(r => r.regnskapsaar).join(', ')}`);
       console.log(`${'='.repeat(60)}`);
 
       // Vis detaljer for hvert år
       for (const report of reports) {
-        console.log(`\n  År: ${report.ar}`);
+        console.log(`\n  År: ${report.regnskapsaar}`);
+        console.log(`  Periode: ${report.fra_dato} – ${report.til_dato}`);
         console.log(`  Scraped at: ${report.scraped_at || 'N/A'}`);
         
         const data = report.data as Record<string, unknown>;
@@ -72,11 +73,8 @@ async function main() {
         } else if (hasJsonData) {
           const raw = data.raw as Record<string, unknown>;
           const journalnr = raw.journalnr || raw.journalnummer || raw.id;
-          const periode = raw.regnskapsperiode as Record<string, unknown> | undefined;
-          const tilDato = periode?.tilDato as string | undefined;
           
           console.log(`  Journalnr: ${journalnr || 'N/A'}`);
-          console.log(`  Regnskapsperiode: ${tilDato || 'N/A'}`);
           console.log(`  Documents: ${Array.isArray(data.documents) ? data.documents.length : 0}`);
         }
       }
@@ -108,7 +106,7 @@ async function main() {
     console.error('Feil ved lesing fra databasen:', error);
     process.exit(1);
   } finally {
-    await client.end();
+    await closePool();
   }
 }
 
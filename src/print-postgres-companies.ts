@@ -1,99 +1,410 @@
-import { createPostgresClient, getPostgresEnvConfig, sanitizeIdentifier } from './postgres';
+import { closePool, PostgresClient, query, withClient } from './db';
+import { getPostgresEnvConfig, sanitizeIdentifier } from './postgres';
 
 interface PostgresCompanyRow {
   organisasjonsnummer: string;
   navn: string | null;
   organisasjonsform_kode: string | null;
   naeringskode1: string | null;
+  forretningsadresse_kommunenummer: string | null;
+  forretningsadresse_postnummer: string | null;
+  antall_ansatte: number | null;
+  stiftelsesdato: string | null;
+  konkurs: boolean | null;
+  under_avvikling: boolean | null;
+  registrert_i_mvaregisteret: boolean | null;
+  registreringsdato: string | null;
   data: Record<string, unknown>;
   last_synced: Date | string | null;
+  deleted_at: Date | string | null;
+}
+
+/**
+ * Filters on the typed, indexed columns (see migrations/0008-company-columns.ts)
+ */
+export interface CompanyFilter {
+  /** One or more organisasjonsform codes, e.g. ['AS', 'ASA'] */
+  organisasjonsform?: string[];
+  /** Prefix of naeringskode1, e.g. 62 or 62.01 */
+  naeringskode?: string;
+  kommunenummer?: string;
+  postnummer?: string;
+  minAnsatte?: number;
+  maxAnsatte?: number;
+  /** Stiftelsesdato from/to, inclusive (YYYY-MM-DD) */
+  stiftetFra?: string;
+  stiftetTil?: string;
+  /** Registration date in Enhetsregisteret from/to, inclusive (YYYY-MM-DD) */
+  registrertFra?: string;
+  registrertTil?: string;
+  konkurs?: boolean;
+  underAvvikling?: boolean;
+  mvaRegistrert?: boolean;
+}
+
+export interface FetchCompaniesOptions {
+  batchSize?: number;
+  /** Include companies tombstoned by a SLETTET update */
+  includeDeleted?: boolean;
+  filter?: CompanyFilter;
+}
+
+export interface CompanyPageOptions {
+  /** Opaque cursor from the previous page's nextCursor */
+  cursor?: string;
+  limit?: number;
+  /** A key in SORT_KEYS, prefixed with - for descending order */
+  sort?: string;
+  /** Keys in COMPANY_FIELDS; organisasjonsnummer is always included */
+  fields?: string[];
+  includeDeleted?: boolean;
+  filter?: CompanyFilter;
+}
+
+export interface CompanyPage {
+  items: Record<string, unknown>[];
+  /** null on the last page */
+  nextCursor: string | null;
+  limit: number;
+  sort: string;
+}
+
+/**
+ * Invalid cursor, sort or fields; the API answers these with 400
+ */
+export class CompanyQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CompanyQueryError';
+  }
 }
 
 const DEFAULT_BATCH_SIZE = Number(process.env.POSTGRES_READ_BATCH_SIZE ?? '500');
+export const DEFAULT_PAGE_LIMIT = 50;
+export const MAX_PAGE_LIMIT = 500;
 
-export async function fetchCompaniesFromPostgres(batchSize = DEFAULT_BATCH_SIZE) {
-  const postgresConfig = getPostgresEnvConfig();
-  const tableName = sanitizeIdentifier(postgresConfig.tableName);
-  const client = createPostgresClient(postgresConfig);
+/** Selectable fields and the SQL that produces them */
+export const COMPANY_FIELDS: Record<string, string> = {
+  organisasjonsnummer: 'organisasjonsnummer',
+  navn: 'navn',
+  organisasjonsform_kode: 'organisasjonsform_kode',
+  naeringskode1: 'naeringskode1',
+  forretningsadresse_kommunenummer: 'forretningsadresse_kommunenummer',
+  forretningsadresse_postnummer: 'forretningsadresse_postnummer',
+  antall_ansatte: 'antall_ansatte',
+  stiftelsesdato: "to_char(stiftelsesdato, 'YYYY-MM-DD')",
+  registreringsdato: "to_char(registreringsdato, 'YYYY-MM-DD')",
+  konkurs: 'konkurs',
+  under_avvikling: 'under_avvikling',
+  registrert_i_mvaregisteret: 'registrert_i_mvaregisteret',
+  last_synced: 'last_synced',
+  deleted_at: 'deleted_at',
+  data: 'data',
+};
 
-  const companies: Record<string, unknown>[] = [];
-  let offset = 0;
+/** The full JSONB document is only returned when asked for */
+export const DEFAULT_COMPANY_FIELDS = Object.keys(COMPANY_FIELDS).filter((field) => field !== 'data');
 
-  try {
-    console.log(
-      `Reading companies from postgres://${postgresConfig.host}:${postgresConfig.port}/${postgresConfig.database}`,
-    );
-    
-    // Legg til timeout på connect
-    const connectPromise = client.connect();
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => reject(new Error('Database connection timeout after 10 seconds')), 10000);
-    });
-    
-    await Promise.race([connectPromise, timeoutPromise]);
-
-    while (true) {
-      const result = await client.query<PostgresCompanyRow>(
-        `
-          SELECT
-            organisasjonsnummer,
-            navn,
-            organisasjonsform_kode,
-            naeringskode1,
-            data,
-            last_synced
-          FROM ${tableName}
-          ORDER BY organisasjonsnummer
-          OFFSET $1
-          LIMIT $2
-        `,
-        [offset, batchSize],
-      );
+/**
+ * Sort keys for keyset pagination. NULLs are mapped to a sentinel so (key, organisasjonsnummer)
+ * is always comparable; cast is the type the cursor value is read back as. Each expression has a
+ * matching (expression, organisasjonsnummer) index in migration 0010, so keep them in sync.
+ */
+const SORT_KEYS: Record<string, { expression: string; cast: string }> = {
+  organisasjonsnummer: { expression: 'organisasjonsnummer', cast: 'text' },
+  navn: { expression: "COALESCE(navn, '')", cast: 'text' },
+  antall_ansatte: { expression: 'COALESCE(antall_ansatte, -1)', cast: 'int' },
+  stiftelsesdato: { expression: "COALESCE(stiftelsesdato, '0001-01-01'::date)", cast: 'date' },
+  registreringsdato: { expression: "COALESCE(registreringsdato, '0001-01-01'::date)", cast: 'date' },
+};
 
-      if (result.rows.length === 0) {
-        break;
-      }
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
 
-      for (const row of result.rows) {
-        companies.push({
-          organisasjonsnummer: row.organisasjonsnummer,
-          navn: row.navn,
-          organisasjonsform_kode: row.organisasjonsform_kode,
-          naeringskode1: row.naeringskode1,
-          last_synced:
-            row.last_synced instanceof Date ? row.last_synced.toISOString() : row.last_synced,
-          data: row.data,
-        });
-      }
+function parseBoolean(value: unknown): boolean | undefined {
+  if (value === 'true' || value === true) {
+    return true;
+  }
+  if (value === 'false' || value === false) {
+    return false;
+  }
+  return undefined;
+}
 
-      offset += result.rows.length;
-    }
-  } catch (error) {
-    const err = error as Error;
-    if (err.message.includes('timeout') || err.message.includes('ETIMEDOUT') || err.message.includes('ECONNREFUSED')) {
-      throw new Error('Kunne ikke koble til databasen. Databasen er sannsynligvis kun tilgjengelig fra EC2. Kjør serveren på EC2 i stedet for lokalt.');
+function parseInteger(value: unknown): number | undefined {
+  const number = Number(value);
+  return value !== undefined && value !== '' && Number.isInteger(number) ? number : undefined;
+}
+
+function parseDate(value: unknown): string | undefined {
+  return typeof value === 'string' && DATE_PATTERN.test(value) ? value : undefined;
+}
+
+/**
+ * Build a CompanyFilter from query parameters (or --key=value CLI flags); invalid values are ignored
+ */
+export function parseCompanyFilter(query: Record<string, unknown>): CompanyFilter {
+  const text = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+  const naeringskode = text(query.naeringskode);
+  return {
+    organisasjonsform: text(query.organisasjonsform)
+      ?.split(',')
+      .map((kode) => kode.trim().toUpperCase())
+      .filter(Boolean),
+    naeringskode: naeringskode && /^[\d.]+$/.test(naeringskode) ? naeringskode : undefined,
+    kommunenummer: text(query.kommunenummer),
+    postnummer: text(query.postnummer),
+    minAnsatte: parseInteger(query.minAnsatte),
+    maxAnsatte: parseInteger(query.maxAnsatte),
+    stiftetFra: parseDate(query.stiftetFra),
+    stiftetTil: parseDate(query.stiftetTil),
+    registrertFra: parseDate(query.registrertFra),
+    registrertTil: parseDate(query.registrertTil),
+    konkurs: parseBoolean(query.konkurs),
+    underAvvikling: parseBoolean(query.underAvvikling),
+    mvaRegistrert: parseBoolean(query.mvaRegistrert),
+  };
+}
+
+/**
+ * WHERE conditions for the filter; parameters are appended to values
+ */
+export function buildCompanyFilterConditions(filter: CompanyFilter, values: unknown[]): string[] {
+  const conditions: string[] = [];
+  const add = (sql: string, value: unknown) => {
+    values.push(value);
+    conditions.push(sql.replace('?', `$${values.length}`));
+  };
+
+  if (filter.organisasjonsform?.length) add('organisasjonsform_kode = ANY(?::text[])', filter.organisasjonsform);
+  if (filter.naeringskode) add("naeringskode1 LIKE ? || '%'", filter.naeringskode);
+  if (filter.kommunenummer) add('forretningsadresse_kommunenummer = ?', filter.kommunenummer);
+  if (filter.postnummer) add('forretningsadresse_postnummer = ?', filter.postnummer);
+  if (filter.minAnsatte !== undefined) add('antall_ansatte >= ?', filter.minAnsatte);
+  if (filter.maxAnsatte !== undefined) add('antall_ansatte <= ?', filter.maxAnsatte);
+  if (filter.stiftetFra) add('stiftelsesdato >= ?::date', filter.stiftetFra);
+  if (filter.stiftetTil) add('stiftelsesdato <= ?::date', filter.stiftetTil);
+  if (filter.registrertFra) add('registreringsdato >= ?::date', filter.registrertFra);
+  if (filter.registrertTil) add('registreringsdato <= ?::date', filter.registrertTil);
+  // NULL means the flag is missing in brreg's data, which brreg uses for false
+  if (filter.konkurs !== undefined) add('COALESCE(konkurs, FALSE) = ?', filter.konkurs);
+  if (filter.underAvvikling !== undefined) add('COALESCE(under_avvikling, FALSE) = ?', filter.underAvvikling);
+  if (filter.mvaRegistrert !== undefined) add('COALESCE(registrert_i_mvaregisteret, FALSE) = ?', filter.mvaRegistrert);
+
+  return conditions;
+}
+
+/**
+ * Parse cursor, limit, sort and fields from query parameters. Filters are parsed with parseCompanyFilter.
+ */
+export function parseCompanyPageOptions(query: Record<string, unknown>): CompanyPageOptions {
+  const limit = query.limit === undefined ? DEFAULT_PAGE_LIMIT : Number(query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_LIMIT) {
+    throw new CompanyQueryError(`limit må være et heltall mellom 1 og ${MAX_PAGE_LIMIT}`);
+  }
+
+  const sort = typeof query.sort === 'string' && query.sort ? query.sort : 'organisasjonsnummer';
+  if (!SORT_KEYS[sort.replace(/^-/, '')]) {
+    throw new CompanyQueryError(`Ukjent sort "${sort}". Gyldige: ${Object.keys(SORT_KEYS).join(', ')}`);
+  }
+
+  let fields: string[] | undefined;
+  if (typeof query.fields === 'string' && query.fields) {
+    fields = query.fields.split(',').map((field) => field.trim()).filter(Boolean);
+    const unknown = fields.filter((field) => !COMPANY_FIELDS[field]);
+    if (unknown.length) {
+      throw new CompanyQueryError(`Ukjente felter: ${unknown.join(', ')}`);
     }
-    throw error;
-  } finally {
-    try {
-      await client.end();
-    } catch (e) {
-      // Ignore errors when closing connection
+  }
+
+  return {
+    cursor: typeof query.cursor === 'string' && query.cursor ? query.cursor : undefined,
+    limit,
+    sort,
+    fields,
+    includeDeleted: query.includeDeleted === 'true',
+  };
+}
+
+function encodeCursor(sort: string, key: unknown[]): string {
+  return Buffer.from(JSON.stringify({ s: sort, k: key })).toString('base64url');
+}
+
+function decodeCursor(cursor: string, sort: string): unknown[] {
+  let decoded: { s?: unknown; k?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new CompanyQueryError('Ugyldig cursor');
+  }
+  if (decoded.s !== sort || !Array.isArray(decoded.k) || decoded.k.length !== 2) {
+    throw new CompanyQueryError('Ugyldig cursor for denne sorteringen');
+  }
+  // The values are bound as query parameters, but must still cast cleanly or Postgres fails with a 500
+  const [sortValue, orgnr] = decoded.k;
+  const sortKey = SORT_KEYS[sort.replace(/^-/, '')];
+  if (!sortKey || !isValidCursorValue(sortValue, sortKey.cast) || typeof orgnr !== 'string' || !/^\d{9}$/.test(orgnr)) {
+    throw new CompanyQueryError('Ugyldig cursor');
+  }
+  return decoded.k;
+}
+
+function isValidCursorValue(value: unknown, cast: string): boolean {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  switch (cast) {
+    case 'int':
+      return /^-?\d{1,10}$/.test(value) && Math.abs(Number(value)) <= 2147483647;
+    case 'date': {
+      if (!DATE_PATTERN.test(value)) {
+        return false;
+      }
+      const date = new Date(`${value}T00:00:00Z`);
+      return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
     }
+    default:
+      return true;
+  }
+}
+
+function formatTimestamp(value: unknown) {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+/**
+ * One page of companies ordered by the sort key and organisasjonsnummer. The cursor holds the
+ * last row's (sort key, organisasjonsnummer), so each page is an index range scan instead of OFFSET
+ * (see SORT_KEYS).
+ */
+export async function fetchCompanyPage(
+  options: CompanyPageOptions = {},
+  client?: PostgresClient,
+): Promise<CompanyPage> {
+  const { limit = DEFAULT_PAGE_LIMIT, sort = 'organisasjonsnummer', includeDeleted = false, filter = {} } = options;
+  const tableName = sanitizeIdentifier(getPostgresEnvConfig().tableName);
+  const descending = sort.startsWith('-');
+  const sortKey = SORT_KEYS[sort.replace(/^-/, '')];
+  if (!sortKey) {
+    throw new CompanyQueryError(`Ukjent sort "${sort}"`);
+  }
+
+  const fields = Array.from(new Set(['organisasjonsnummer', ...(options.fields ?? DEFAULT_COMPANY_FIELDS)]));
+  const values: unknown[] = [];
+  const conditions = buildCompanyFilterConditions(filter, values);
+  if (!includeDeleted) {
+    conditions.push('deleted_at IS NULL');
+  }
+  if (options.cursor) {
+    const [sortValue, orgnr] = decodeCursor(options.cursor, sort);
+    values.push(sortValue, orgnr);
+    conditions.push(
+      `(${sortKey.expression}, organisasjonsnummer) ${descending ? '<' : '>'} ($${values.length - 1}::${sortKey.cast}, $${values.length})`,
+    );
   }
+  values.push(limit + 1);
+
+  const direction = descending ? 'DESC' : 'ASC';
+  const sql = `
+    SELECT
+      ${fields.map((field) => `${COMPANY_FIELDS[field]} AS ${field}`).join(',\n      ')},
+      (${sortKey.expression})::text AS _sort_key
+    FROM ${tableName}
+    ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+    ORDER BY ${sortKey.expression} ${direction}, organisasjonsnummer ${direction}
+    LIMIT $${values.length}
+  `;
+
+  // Fetch one extra row to know whether there is a next page
+  const result = client
+    ? await client.query<Record<string, unknown>>(sql, values)
+    : await query<Record<string, unknown>>(sql, values);
+  const rows = result.rows.slice(0, limit);
+  const last = rows[rows.length - 1];
+
+  return {
+    items: rows.map(({ _sort_key, ...row }) => ({
+      ...row,
+      ...('last_synced' in row ? { last_synced: formatTimestamp(row.last_synced) } : {}),
+      ...('deleted_at' in row ? { deleted_at: formatTimestamp(row.deleted_at) } : {}),
+    })),
+    nextCursor: result.rows.length > limit && last
+      ? encodeCursor(sort, [last._sort_key, last.organisasjonsnummer])
+      : null,
+    limit,
+    sort,
+  };
+}
+
+/**
+ * Read every matching company, page by page. Backs the /companies compatibility endpoint.
+ */
+export async function fetchCompaniesFromPostgres(options: FetchCompaniesOptions = {}) {
+  const { batchSize = DEFAULT_BATCH_SIZE, includeDeleted = false, filter = {} } = options;
+  const postgresConfig = getPostgresEnvConfig();
+
+  const companies: Record<string, unknown>[] = [];
+
+  console.log(
+    `Reading companies from postgres://${postgresConfig.host}:${postgresConfig.port}/${postgresConfig.database}`,
+  );
+
+  // One pooled connection for all batches
+  await withClient(async (client) => {
+    let cursor: string | undefined;
+    do {
+      const page = await fetchCompanyPage(
+        { cursor, limit: batchSize, includeDeleted, filter, fields: Object.keys(COMPANY_FIELDS) },
+        client,
+      );
+      companies.push(...page.items);
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+  });
 
   return companies;
 }
 
+/**
+ * Look up a set of companies by organisasjonsnummer (order of the result is not guaranteed)
+ */
+export async function fetchCompaniesByOrgnumre(orgnumre: string[]) {
+  if (!orgnumre.length) {
+    return [];
+  }
+
+  const tableName = sanitizeIdentifier(getPostgresEnvConfig().tableName);
+  const result = await query<Pick<PostgresCompanyRow, 'organisasjonsnummer' | 'navn' | 'organisasjonsform_kode' | 'naeringskode1' | 'deleted_at'>>(
+    `
+      SELECT organisasjonsnummer, navn, organisasjonsform_kode, naeringskode1, deleted_at
+      FROM ${tableName}
+      WHERE organisasjonsnummer = ANY($1::text[])
+    `,
+    [orgnumre],
+  );
+  return result.rows;
+}
+
 export async function printCompaniesAsJson() {
-  const companies = await fetchCompaniesFromPostgres();
+  // --kommunenummer=0301 --minAnsatte=10 --konkurs=false ...
+  const flags = Object.fromEntries(
+    process.argv
+      .slice(2)
+      .filter((arg) => arg.startsWith('--') && arg.includes('='))
+      .map((arg) => [arg.slice(2, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]),
+  );
+  const companies = await fetchCompaniesFromPostgres({
+    includeDeleted: process.argv.includes('--include-deleted'),
+    filter: parseCompanyFilter(flags),
+  });
   console.log(JSON.stringify(companies, null, 2));
 }
 
 if (require.main === module) {
-  printCompaniesAsJson().catch((error) => {
-    console.error('Failed to read companies from Postgres:', error);
-    process.exit(1);
-  });
+  printCompaniesAsJson()
+    .then(() => closePool())
+    .catch((error) => {
+      console.error('Failed to read companies from Postgres:', error);
+      process.exit(1);
+    });
 }
 
@@ -0,0 +1,133 @@
+/**
+ * Skriv ut rapporten for en synkronisering
+ *
+ * Bruk:
+ *   npm run report:sync                          # siste kjøring som tabell
+ *   npm run report:sync -- 42 --format=markdown  # kjøring 42 som markdown
+ *   npm run report:sync -- --format=json
+ *   npm run report:sync -- --list                # de siste kjøringene
+ */
+
+import { closePool, withClient } from './db';
+import { getPostgresEnvConfig, sanitizeIdentifier } from './postgres';
+import {
+  ChangeType,
+  formatReportAsMarkdown,
+  formatReportAsTable,
+  SYNC_CHANGES_TABLE,
+  SYNC_RUNS_TABLE,
+  SyncRunChangeRow,
+  SyncRunReport,
+  SyncRunRow,
+} from './sync-report';
+
+export interface SyncReportOptions {
+  changeType?: ChangeType;
+  /** Maks antall endringer i rapporten */
+  limit?: number;
+}
+
+export async function fetchSyncRuns(limit = 20): Promise<SyncRunRow[]> {
+  return withClient(async (client) => {
+    const result = await client.query<SyncRunRow>(
+      `
+        SELECT id::int AS id, source, status, started_at, finished_at, processed, created, modified, deleted, error
+        FROM ${SYNC_RUNS_TABLE}
+        ORDER BY id DESC
+        LIMIT $1
+      `,
+      [limit],
+    );
+    return result.rows;
+  });
+}
+
+/**
+ * Hent en kjøring med endringer. runId 'latest' gir siste kjøring.
+ */
+export async function fetchSyncRunReport(runId: number | 'latest', options: SyncReportOptions = {}): Promise<SyncRunReport | null> {
+  const tableName = sanitizeIdentifier(getPostgresEnvConfig().tableName);
+
+  return withClient(async (client) => {
+    const runResult = await client.query<SyncRunRow>(
+      `
+        SELECT id::int AS id, source, status, started_at, finished_at, processed, created, modified, deleted, error
+        FROM ${SYNC_RUNS_TABLE}
+        ${runId === 'latest' ? '' : 'WHERE id = $1'}
+        ORDER BY id DESC
+        LIMIT 1
+      `,
+      runId === 'latest' ? [] : [runId],
+    );
+    const run = runResult.rows[0];
+    if (!run) {
+      return null;
+    }
+
+    const conditions = ['ch.run_id = $1'];
+    const values: unknown[] = [run.id];
+    if (options.changeType) {
+      values.push(options.changeType);
+      conditions.push(`ch.change_type = $${values.length}`);
+    }
+    values.push(options.limit ?? null);
+
+    const changesResult = await client.query<SyncRunChangeRow>(
+      `
+        SELECT ch.organisasjonsnummer, c.navn, ch.change_type, ch.changed_fields, ch.changes
+        FROM ${SYNC_CHANGES_TABLE} ch
+        LEFT JOIN ${tableName} c ON c.organisasjonsnummer = ch.organisasjonsnummer
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY ch.change_type, ch.organisasjonsnummer
+        LIMIT $${values.length}
+      `,
+      values,
+    );
+
+    return { ...run, changes: changesResult.rows };
+  });
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const format = args.find((arg) => arg.startsWith('--format='))?.slice('--format='.length) ?? 'table';
+
+  if (args.includes('--list')) {
+    const runs = await fetchSyncRuns();
+    if (format === 'json') {
+      console.log(JSON.stringify(runs, null, 2));
+      return;
+    }
+    for (const run of runs) {
+      console.log(
+        `#${run.id}  ${new Date(run.started_at).toISOString()}  ${run.source.padEnd(5)}  ${run.status.padEnd(9)}  ` +
+        `${run.created} nye, ${run.modified} endret, ${run.deleted} slettet (${run.processed} behandlet)`,
+      );
+    }
+    return;
+  }
+
+  const runArg = args.find((arg) => /^\d+$/.test(arg));
+  const report = await fetchSyncRunReport(runArg ? Number(runArg) : 'latest');
+  if (!report) {
+    console.log(runArg ? `Fant ingen kjøring #${runArg}` : 'Ingen synkroniseringer er registrert ennå.');
+    return;
+  }
+
+  if (format === 'json') {
+    console.log(JSON.stringify(report, null, 2));
+  } else if (format === 'markdown') {
+    console.log(formatReportAsMarkdown(report));
+  } else {
+    console.log(formatReportAsTable(report));
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(() => closePool())
+    .catch((error) => {
+      console.error('Kunne ikke lese synkroniseringsrapport:', error);
+      process.exit(1);
+    });
+}
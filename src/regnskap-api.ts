@@ -1,5 +1,9 @@
 import axios, { AxiosError } from 'axios';
 
+import { httpClient } from './http-client';
+import { normalizeRegnskap, Regnskap, RegnskapResponse } from './regnskap-model';
+import { validateRecord } from './validation';
+
 interface EnhetMetadata {
   stiftelsesdato?: string;
   stiftelsesdatoEnhetsregisteret?: string;
@@ -14,7 +18,8 @@ interface EnhetMetadata {
 export interface RegnskapApiEntry {
   year: number;
   documents: Array<Record<string, unknown>>;
-  raw: Record<string, unknown>;
+  raw: RegnskapResponse;
+  regnskap: Regnskap;
 }
 
 const REGNSKAP_API_BASE = 'https://data.brreg.no/regnskapsregisteret/regnskap';
@@ -91,7 +96,7 @@ async function deriveYearBounds(orgnr: string): Promise<{ minYear: number; maxYe
 
 async function fetchCompanyMetadata(orgnr: string): Promise<EnhetMetadata> {
   const url = `${ENHETSREGISTERET_API_BASE}/${orgnr}`;
-  const response = await axios.get<EnhetMetadata>(url, {
+  const response = await httpClient.get<EnhetMetadata>(url, {
     headers: { Accept: 'application/json' },
     timeout: 10000,
   });
@@ -103,7 +108,7 @@ async function fetchRegnskapForYear(orgnr: string, year: number): Promise<Regnsk
   for (const paramKey of params) {
     const url = `${REGNSKAP_API_BASE}/${orgnr}?${paramKey}=${year}`;
     try {
-      const response = await axios.get(url, {
+      const response = await httpClient.get(url, {
         headers: { Accept: 'application/json' },
         timeout: 15000,
       });
@@ -137,36 +142,36 @@ function normalizeRegnskapResponse(data: unknown, requestedYear: number): Regnsk
   }
 
   for (const candidate of candidates) {
-    // Hent faktisk år fra regnskapsperiode, ikke fra requestedYear
-    const actualYear = extractYearFromCandidate(candidate, requestedYear);
-    if (!actualYear) {
+    if (!validateRecord('regnskap', candidate)) {
+      continue;
+    }
+
+    // Året hentes fra regnskapet selv, ikke fra requestedYear (API-et kan returnere et annet år)
+    const regnskap = normalizeRegnskap(candidate, requestedYear);
+    if (!regnskap) {
       continue;
     }
-    
-    // Hvis faktisk år ikke matcher requestedYear, ignorer denne (API returnerte feil år)
-    // Men hvis requestedYear er samme som faktisk år, eller hvis vi ikke har noe annet valg, bruk den
-    const year = actualYear;
 
-    const documents = extractDocumentsFromCandidate(candidate);
     return {
-      year,
-      documents,
+      year: regnskap.ar,
+      documents: extractDocumentsFromCandidate(candidate),
       raw: candidate,
+      regnskap,
     };
   }
 
   return null;
 }
 
-function extractCandidateArray(data: unknown): Record<string, unknown>[] {
+function extractCandidateArray(data: unknown): RegnskapResponse[] {
   if (Array.isArray(data)) {
-    return data.filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === 'object');
+    return data.filter((item): item is RegnskapResponse => Boolean(item) && typeof item === 'object');
   }
 
   if (typeof data === 'object' && data !== null) {
     const record = data as Record<string, unknown>;
     if (Array.isArray(record.regnskap)) {
-      return record.regnskap.filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === 'object');
+      return record.regnskap.filter((item): item is RegnskapResponse => Boolean(item) && typeof item === 'object');
     }
     return [record];
   }
@@ -174,32 +179,7 @@ function extractCandidateArray(data: unknown): Record<string, unknown>[] {
   return [];
 }
 
-function extractYearFromCandidate(candidate: Record<string, unknown>, fallbackYear: number): number | null {
-  const keys = ['regnskapsår', 'regnskapsar', 'regnskapsYear', 'år', 'ar', 'regnskapsAar'];
-  for (const key of keys) {
-    const year = parseYear(candidate[key]);
-    if (year) {
-      return year;
-    }
-  }
-  
-  // Prøv å hente året fra regnskapsperiode
-  const periode = candidate.regnskapsperiode;
-  if (periode && typeof periode === 'object') {
-    const periodeObj = periode as Record<string, unknown>;
-    const tilDato = periodeObj.tilDato || periodeObj.tilDato;
-    const fraDato = periodeObj.fraDato || periodeObj.fraDato;
-    const dateStr = String(tilDato || fraDato || '');
-    const year = parseYear(dateStr);
-    if (year) {
-      return year;
-    }
-  }
-  
-  return parseYear(fallbackYear);
-}
-
-function extractDocumentsFromCandidate(candidate: Record<string, unknown>): Array<Record<string, unknown>> {
+function extractDocumentsFromCandidate(candidate: RegnskapResponse): Array<Record<string, unknown>> {
   const documents = candidate.dokumenter || candidate.documents || [];
   if (Array.isArray(documents)) {
     return documents.filter((doc): doc is Record<string, unknown> => Boolean(doc) && typeof doc === 'object');
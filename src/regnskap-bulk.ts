@@ -7,6 +7,8 @@
 
 import axios from 'axios';
 
+import { httpClient } from './http-client';
+
 const REGNSKAP_API_BASE = 'https://data.brreg.no/regnskapsregisteret';
 const ENHETSREGISTERET_API_BASE = 'https://data.brreg.no/enhetsregisteret/api';
 
@@ -24,7 +26,7 @@ export async function fetchAllRegnskapForOrg(orgnr: string): Promise<unknown[]>
   for (const endpoint of endpoints) {
     try {
       const url = `${REGNSKAP_API_BASE}${endpoint}`;
-      const response = await axios.get(url, {
+      const response = await httpClient.get(url, {
         headers: { Accept: 'application/json' },
         timeout: 15000,
       });
@@ -53,7 +55,7 @@ export async function fetchAllRegnskapForOrg(orgnr: string): Promise<unknown[]>
 export async function fetchRegnskapByJournalNumber(journalnr: string | number): Promise<unknown | null> {
   try {
     const url = `${REGNSKAP_API_BASE}/regnskap/journal/${journalnr}`;
-    const response = await axios.get(url, {
+    const response = await httpClient.get(url, {
       headers: { Accept: 'application/json' },
       timeout: 15000,
     });
@@ -81,7 +83,7 @@ export async function findJournalNumbersForOrg(orgnr: string): Promise<(string |
   for (const endpoint of endpoints) {
     try {
       const url = `${REGNSKAP_API_BASE}${endpoint}`;
-      const response = await axios.get(url, {
+      const response = await httpClient.get(url, {
         headers: { Accept: 'application/json' },
         timeout: 15000,
       });
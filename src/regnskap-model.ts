@@ -0,0 +1,339 @@
+/**
+ * Typet modell av årsregnskap fra Regnskapsregisteret
+ *
+ * RegnskapResponse beskriver JSON-en slik API-et leverer den (og slik den lagres i
+ * brreg_annual_reports.data.raw). Regnskap er den normaliserte modellen som resten av koden
+ * bruker: flate summer som tall eller null, år og periode som egne felter.
+ * Dokumentasjon: https://data.brreg.no/regnskapsregisteret/regnskap/api-docs
+ */
+
+type Amount = number | string | null;
+
+export interface RegnskapResponse {
+  id?: number;
+  journalnr?: string | number;
+  journalnummer?: string | number;
+  regnskapstype?: 'SELSKAP' | 'KONSERN';
+  virksomhet?: {
+    organisasjonsnummer?: string;
+    organisasjonsform?: string;
+    morselskap?: boolean;
+  };
+  regnskapsperiode?: {
+    fraDato?: string;
+    tilDato?: string;
+  };
+  valuta?: string;
+  oppstillingsplan?: string;
+  avviklingsregnskap?: boolean;
+  revisjon?: {
+    ikkeRevidertAarsregnskap?: boolean;
+    fravalgRevisjon?: boolean;
+  };
+  // Stavet slik i API-et
+  regnkapsprinsipper?: {
+    smaaForetak?: boolean;
+    regnskapsregler?: string;
+  };
+  resultatregnskapResultat?: {
+    driftsresultat?: {
+      driftsresultat?: Amount;
+      driftsinntekter?: {
+        salgsinntekter?: Amount;
+        sumDriftsinntekter?: Amount;
+      };
+      driftskostnad?: {
+        loennskostnad?: Amount;
+        sumDriftskostnad?: Amount;
+      };
+    };
+    finansresultat?: {
+      nettoFinans?: Amount;
+      finansinntekt?: { sumFinansinntekter?: Amount };
+      finanskostnad?: { sumFinanskostnad?: Amount };
+    };
+    ordinaertResultatFoerSkattekostnad?: Amount;
+    aarsresultat?: Amount;
+    totalresultat?: Amount;
+    /** Lest ut av PDF av scrape-pdf.ts når JSON-data mangler */
+    salgsinntekt?: Amount;
+    /** Lest ut av PDF av scrape-pdf.ts når JSON-data mangler */
+    sumInntekter?: Amount;
+  };
+  eiendeler?: {
+    sumEiendeler?: Amount;
+    anleggsmidler?: { sumAnleggsmidler?: Amount };
+    // varer finnes bare i fullstendige regnskap
+    omloepsmidler?: { sumOmloepsmidler?: Amount; varer?: Amount };
+  };
+  egenkapitalGjeld?: {
+    sumEgenkapitalGjeld?: Amount;
+    egenkapital?: {
+      sumEgenkapital?: Amount;
+      // API-et staver feltet sumInnskuttEgenkaptial
+      innskuttEgenkapital?: { sumInnskuttEgenkaptial?: Amount; sumInnskuttEgenkapital?: Amount };
+      opptjentEgenkapital?: { sumOpptjentEgenkapital?: Amount };
+    };
+    gjeldOversikt?: {
+      sumGjeld?: Amount;
+      kortsiktigGjeld?: { sumKortsiktigGjeld?: Amount };
+      langsiktigGjeld?: { sumLangsiktigGjeld?: Amount };
+    };
+  };
+  dokumenter?: Array<Record<string, unknown>>;
+  /** Gamle PDF-oppføringer har årsresultatet direkte på roten */
+  aarsresultat?: Amount;
+  [key: string]: unknown;
+}
+
+export interface Resultatregnskap {
+  salgsinntekter: number | null;
+  sumDriftsinntekter: number | null;
+  loennskostnad: number | null;
+  sumDriftskostnader: number | null;
+  driftsresultat: number | null;
+  sumFinansinntekter: number | null;
+  sumFinanskostnader: number | null;
+  nettoFinans: number | null;
+  ordinaertResultatFoerSkattekostnad: number | null;
+  aarsresultat: number | null;
+  totalresultat: number | null;
+}
+
+export interface Eiendeler {
+  sumAnleggsmidler: number | null;
+  sumOmloepsmidler: number | null;
+  varer: number | null;
+  sumEiendeler: number | null;
+}
+
+export interface EgenkapitalGjeld {
+  sumInnskuttEgenkapital: number | null;
+  sumOpptjentEgenkapital: number | null;
+  sumEgenkapital: number | null;
+  sumKortsiktigGjeld: number | null;
+  sumLangsiktigGjeld: number | null;
+  sumGjeld: number | null;
+  sumEgenkapitalGjeld: number | null;
+}
+
+export interface Revisjon {
+  ikkeRevidertAarsregnskap: boolean | null;
+  fravalgRevisjon: boolean | null;
+}
+
+export interface Regnskap {
+  /** Året regnskapsperioden slutter i */
+  ar: number;
+  id: number | null;
+  journalnr: string | null;
+  regnskapstype: 'SELSKAP' | 'KONSERN' | null;
+  organisasjonsnummer: string | null;
+  periode: { fraDato: string | null; tilDato: string | null };
+  valuta: string | null;
+  oppstillingsplan: string | null;
+  avviklingsregnskap: boolean;
+  smaaForetak: boolean | null;
+  regnskapsregler: string | null;
+  resultatregnskap: Resultatregnskap;
+  eiendeler: Eiendeler;
+  egenkapitalGjeld: EgenkapitalGjeld;
+  revisjon: Revisjon;
+}
+
+/**
+ * Regnskapsperioden et årsregnskap er lagret under, som ISO-datoer (YYYY-MM-DD)
+ */
+export interface FiscalPeriod {
+  fraDato: string;
+  tilDato: string;
+}
+
+/**
+ * Innholdet i brreg_annual_reports.data
+ */
+export interface AnnualReportData {
+  source?: string;
+  summary?: RegnskapResponse;
+  documents?: Array<{ title?: string; url?: string; type?: string | null; size?: number | null }>;
+  raw?: RegnskapResponse;
+  regnskap?: Regnskap | null;
+  [key: string]: unknown;
+}
+
+const YEAR_KEYS = ['regnskapsår', 'regnskapsar', 'regnskapsYear', 'år', 'ar', 'regnskapsAar', 'year'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value.replace(/\s+/g, '').replace(',', '.'));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function toBoolean(value: unknown): boolean | null {
+  return typeof value === 'boolean' ? value : null;
+}
+
+function toText(value: unknown): string | null {
+  if (typeof value === 'string' && value.trim() !== '') {
+    return value.trim();
+  }
+  return typeof value === 'number' ? String(value) : null;
+}
+
+/**
+ * En gyldig dato på formatet YYYY-MM-DD (klokkeslett etter datoen ignoreres), ellers null
+ */
+function toDate(value: unknown): string | null {
+  const date = toText(value)?.slice(0, 10);
+  if (!date || !DATE_PATTERN.test(date)) {
+    return null;
+  }
+  // Avviser datoer som 2023-02-30
+  const time = Date.parse(`${date}T00:00:00Z`);
+  return Number.isFinite(time) && new Date(time).toISOString().slice(0, 10) === date ? date : null;
+}
+
+function parseYear(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return Math.floor(value);
+  }
+  if (typeof value === 'string') {
+    const match = value.match(/(19|20)\d{2}/);
+    if (match) {
+      return Number(match[0]);
+    }
+  }
+  return null;
+}
+
+function isObject(value: unknown): value is RegnskapResponse {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Regnskapsåret: året en gyldig tilDato faller i, deretter eksplisitte årsfelter, deretter et årstall
+ * i regnskapsperioden, til slutt fallbackYear
+ */
+export function regnskapYear(raw: RegnskapResponse, fallbackYear?: number): number | null {
+  const tilDato = toDate(raw.regnskapsperiode?.tilDato);
+  if (tilDato) {
+    return Number(tilDato.slice(0, 4));
+  }
+  for (const key of YEAR_KEYS) {
+    const year = parseYear(raw[key]);
+    if (year) {
+      return year;
+    }
+  }
+  return parseYear(raw.regnskapsperiode?.tilDato ?? raw.regnskapsperiode?.fraDato) ?? parseYear(fallbackYear);
+}
+
+/**
+ * Normaliser et regnskap fra API-et (eller en PDF-oppføring med samme struktur).
+ * Returnerer null hvis verdien ikke er et objekt eller året ikke kan bestemmes.
+ */
+export function normalizeRegnskap(raw: unknown, fallbackYear?: number): Regnskap | null {
+  if (!isObject(raw)) {
+    return null;
+  }
+
+  const ar = regnskapYear(raw, fallbackYear);
+  if (!ar) {
+    return null;
+  }
+
+  const resultat = raw.resultatregnskapResultat ?? {};
+  const drift = resultat.driftsresultat ?? {};
+  const finans = resultat.finansresultat ?? {};
+  const eiendeler = raw.eiendeler ?? {};
+  const egenkapital = raw.egenkapitalGjeld?.egenkapital ?? {};
+  const gjeld = raw.egenkapitalGjeld?.gjeldOversikt ?? {};
+  const regnskapstype = raw.regnskapstype === 'SELSKAP' || raw.regnskapstype === 'KONSERN' ? raw.regnskapstype : null;
+
+  return {
+    ar,
+    id: toNumber(raw.id),
+    journalnr: toText(raw.journalnr ?? raw.journalnummer),
+    regnskapstype,
+    organisasjonsnummer: toText(raw.virksomhet?.organisasjonsnummer),
+    periode: {
+      fraDato: toDate(raw.regnskapsperiode?.fraDato),
+      tilDato: toDate(raw.regnskapsperiode?.tilDato),
+    },
+    valuta: toText(raw.valuta),
+    oppstillingsplan: toText(raw.oppstillingsplan),
+    avviklingsregnskap: raw.avviklingsregnskap === true,
+    smaaForetak: toBoolean(raw.regnkapsprinsipper?.smaaForetak),
+    regnskapsregler: toText(raw.regnkapsprinsipper?.regnskapsregler),
+    resultatregnskap: {
+      salgsinntekter: toNumber(drift.driftsinntekter?.salgsinntekter ?? resultat.salgsinntekt),
+      sumDriftsinntekter: toNumber(drift.driftsinntekter?.sumDriftsinntekter ?? resultat.sumInntekter),
+      loennskostnad: toNumber(drift.driftskostnad?.loennskostnad),
+      sumDriftskostnader: toNumber(drift.driftskostnad?.sumDriftskostnad),
+      driftsresultat: toNumber(drift.driftsresultat),
+      sumFinansinntekter: toNumber(finans.finansinntekt?.sumFinansinntekter),
+      sumFinanskostnader: toNumber(finans.finanskostnad?.sumFinanskostnad),
+      nettoFinans: toNumber(finans.nettoFinans),
+      ordinaertResultatFoerSkattekostnad: toNumber(resultat.ordinaertResultatFoerSkattekostnad),
+      aarsresultat: toNumber(resultat.aarsresultat ?? raw.aarsresultat),
+      totalresultat: toNumber(resultat.totalresultat),
+    },
+    eiendeler: {
+      sumAnleggsmidler: toNumber(eiendeler.anleggsmidler?.sumAnleggsmidler),
+      sumOmloepsmidler: toNumber(eiendeler.omloepsmidler?.sumOmloepsmidler),
+      varer: toNumber(eiendeler.omloepsmidler?.varer),
+      sumEiendeler: toNumber(eiendeler.sumEiendeler),
+    },
+    egenkapitalGjeld: {
+      sumInnskuttEgenkapital: toNumber(
+        egenkapital.innskuttEgenkapital?.sumInnskuttEgenkaptial ?? egenkapital.innskuttEgenkapital?.sumInnskuttEgenkapital,
+      ),
+      sumOpptjentEgenkapital: toNumber(egenkapital.opptjentEgenkapital?.sumOpptjentEgenkapital),
+      sumEgenkapital: toNumber(egenkapital.sumEgenkapital),
+      sumKortsiktigGjeld: toNumber(gjeld.kortsiktigGjeld?.sumKortsiktigGjeld),
+      sumLangsiktigGjeld: toNumber(gjeld.langsiktigGjeld?.sumLangsiktigGjeld),
+      sumGjeld: toNumber(gjeld.sumGjeld),
+      sumEgenkapitalGjeld: toNumber(raw.egenkapitalGjeld?.sumEgenkapitalGjeld),
+    },
+    revisjon: {
+      ikkeRevidertAarsregnskap: toBoolean(raw.revisjon?.ikkeRevidertAarsregnskap),
+      fravalgRevisjon: toBoolean(raw.revisjon?.fravalgRevisjon),
+    },
+  };
+}
+
+/**
+ * Perioden et regnskap for året ar lagres under. Uten gyldig periode som slutter i ar (f.eks. regnskap
+ * lest fra PDF) regnes regnskapet som kalenderåret.
+ */
+export function fiscalPeriod(
+  ar: number,
+  periode?: { fraDato?: string | null; tilDato?: string | null } | null,
+): FiscalPeriod {
+  const fraDato = toDate(periode?.fraDato);
+  const tilDato = toDate(periode?.tilDato);
+  if (fraDato && tilDato && fraDato <= tilDato && Number(tilDato.slice(0, 4)) === ar) {
+    return { fraDato, tilDato };
+  }
+  return { fraDato: `${ar}-01-01`, tilDato: `${ar}-12-31` };
+}
+
+/**
+ * Regnskapet fra en lagret rad i brreg_annual_reports. Rader lagret før modellen fantes
+ * har bare raw/summary, og normaliseres ved lesing.
+ */
+export function readRegnskap(data: AnnualReportData | null | undefined, ar?: number): Regnskap | null {
+  if (!data) {
+    return null;
+  }
+  if (data.regnskap) {
+    return data.regnskap;
+  }
+  return normalizeRegnskap(data.raw, ar) ?? normalizeRegnskap(data.summary, ar);
+}
@@ -1,11 +1,18 @@
+import axios from 'axios';
 import dotenv from 'dotenv';
 import * as cheerio from 'cheerio';
 import * as fs from 'fs';
 import * as path from 'path';
 import pdf from 'pdf-parse';
 
-import { createPostgresClient, getPostgresEnvConfig } from './postgres';
+import { closePool, getPool, PostgresClient } from './db';
+import { migrateUp } from './migrate';
 import { fetchRegnskapApiEntries } from './regnskap-api';
+import { upsertFinancials } from './financials';
+import { refreshPeerDistributions } from './peer-benchmark';
+import { AnnualReportData, fiscalPeriod, FiscalPeriod, normalizeRegnskap, RegnskapResponse } from './regnskap-model';
+import { httpClient, HttpClient, logHttpMetrics } from './http-client';
+import { logValidationSummary } from './validation';
 
 dotenv.config();
 
@@ -17,15 +24,14 @@ interface AnnualReportDocument {
   pdfPath?: string; // Path to temporary PDF file if JSON data is not available
 }
 
-interface AnnualReportPayload extends Record<string, unknown> {
+interface AnnualReportPayload extends AnnualReportData {
   source: 'regnskap-api';
-  summary?: Record<string, unknown>;
   documents: AnnualReportDocument[];
-  raw?: Record<string, unknown>;
 }
 
 interface AnnualReport {
   year: number;
+  periode: FiscalPeriod;
   data: AnnualReportPayload;
 }
 
@@ -49,6 +55,12 @@ interface RawFinancialDocument {
   [key: string]: unknown;
 }
 
+interface RegnskapEntry {
+  year: number;
+  documents: Array<Record<string, unknown>>;
+  raw: RegnskapResponse;
+}
+
 const YEAR_REGEX = /^(19|20)\d{2}$/;
 
 // Temp-mappe for PDF-filer
@@ -64,8 +76,8 @@ async function downloadAndParsePdf(
   orgnr: string,
   year: number,
   pdfBuffer: Buffer,
-  axios: any
-): Promise<Record<string, unknown> | null> {
+  http: HttpClient
+): Promise<RegnskapResponse | null> {
   try {
     // Sjekk om responsen inneholder feilmelding
     const responseText = pdfBuffer.toString('utf-8', 0, Math.min(500, pdfBuffer.length));
@@ -121,7 +133,7 @@ async function downloadAndParsePdf(
             if (jsonData && typeof jsonData === 'object' && (jsonData.journalnr || jsonData.regnskapsperiode)) {
               // Slett temp-fil
               fs.unlinkSync(tempPdfPath);
-              return jsonData as Record<string, unknown>;
+              return jsonData as RegnskapResponse;
             }
           } catch (e) {
             // Ignorer JSON-parse-feil
@@ -173,7 +185,7 @@ async function downloadAndParsePdf(
       if (journalNr) {
         try {
           const apiUrl = `https://data.brreg.no/regnskapsregisteret/regnskap/${orgnr}?journalnr=${journalNr}`;
-          const apiResponse = await axios.get(apiUrl, {
+          const apiResponse = await http.get(apiUrl, {
             headers: { Accept: 'application/json' },
             timeout: 10000,
             validateStatus: (status: number) => status === 200 || status === 404,
@@ -189,12 +201,12 @@ async function downloadAndParsePdf(
                 const yearMatch = tilDato.match(/(\d{4})/);
                 if (yearMatch && parseInt(yearMatch[1], 10) === year) {
                   console.log(`[${orgnr}] Fant regnskap for ${year} via API med journalnummer ${journalNr} fra PDF`);
-                  return data as Record<string, unknown>;
+                  return data as RegnskapResponse;
                 }
               }
               // Hvis år ikke matcher, returner data uansett (kan være at PDF-en er for et annet år)
               console.log(`[${orgnr}] Fant regnskap via API med journalnummer ${journalNr} fra PDF, men år matcher ikke (forventet ${year}, fikk ${tilDato})`);
-              return data as Record<string, unknown>;
+              return data as RegnskapResponse;
             }
           }
         } catch (apiError) {
@@ -208,7 +220,7 @@ async function downloadAndParsePdf(
       // Dette fungerer sjelden for eldre år, men verdt å prøve
       try {
         const apiUrl = `https://data.brreg.no/regnskapsregisteret/regnskap/${orgnr}?ar=${year}`;
-        const apiResponse = await axios.get(apiUrl, {
+        const apiResponse = await http.get(apiUrl, {
           headers: { Accept: 'application/json' },
           timeout: 10000,
           validateStatus: (status: number) => status === 200 || status === 404,
@@ -224,7 +236,7 @@ async function downloadAndParsePdf(
               const yearMatch = tilDato.match(/(\d{4})/);
               if (yearMatch && parseInt(yearMatch[1], 10) === year) {
                 console.log(`[${orgnr}] Fant regnskap for ${year} via API med år-parameter`);
-                return data as Record<string, unknown>;
+                return data as RegnskapResponse;
               }
             }
           }
@@ -316,7 +328,7 @@ async function downloadAndParsePdf(
       
       // Behold PDF-filen (ikke slett den) og returner metadata
       // Merk: PDF-filen vil ikke bli slettet automatisk, så vi må håndtere cleanup senere
-      const result: Record<string, unknown> = {
+      const result: RegnskapResponse = {
         year,
         pdfPath: tempPdfPath,
         pdfSize: pdfData.length,
@@ -354,40 +366,49 @@ async function downloadAndParsePdf(
 
 async function main() {
   const orgArgs = process.argv.slice(2).map((value) => value.replace(/\D+/g, '')).filter(Boolean);
-  const postgresConfig = getPostgresEnvConfig();
-  const client = createPostgresClient(postgresConfig);
+  const client = await getPool().connect();
 
-  await client.connect();
-  await ensureAnnualReportTable(client);
+  try {
+    await migrateUp(client, { quiet: true });
 
-  const organisasjonsnumre = orgArgs.length ? orgArgs : await fetchOrgNumbers(client);
+    const organisasjonsnumre = orgArgs.length ? orgArgs : await fetchOrgNumbers(client);
 
-  console.log(`🔎 Skal skrape årsregnskap for ${organisasjonsnumre.length} enheter`);
+    console.log(`🔎 Skal skrape årsregnskap for ${organisasjonsnumre.length} enheter`);
 
-  let processed = 0;
-  for (const orgnr of organisasjonsnumre) {
-    try {
-      const reports = await fetchAnnualReports(orgnr);
+    let processed = 0;
+    for (const orgnr of organisasjonsnumre) {
+      try {
+        const reports = await fetchAnnualReports(orgnr);
 
-      if (!reports.length) {
-        console.warn(`[${orgnr}] Fant ingen årsregnskap i kildesiden`);
-        continue;
-      }
+        if (!reports.length) {
+          console.warn(`[${orgnr}] Fant ingen årsregnskap i kildesiden`);
+          continue;
+        }
 
-      const sorted = reports.sort((a, b) => b.year - a.year);
+        const sorted = reports.sort((a, b) => b.year - a.year);
+
+        for (const report of sorted) {
+          await upsertAnnualReport(client, orgnr, report);
+        }
 
-      for (const report of sorted) {
-        await upsertAnnualReport(client, orgnr, report);
+        processed += 1;
+        console.log(`[${orgnr}] Lagret ${sorted.length} årsrapporter (${processed}/${organisasjonsnumre.length})`);
+      } catch (error) {
+        console.error(`[${orgnr}] Klarte ikke å hente årsregnskap`, error);
       }
+    }
 
-      processed += 1;
-      console.log(`[${orgnr}] Lagret ${sorted.length} årsrapporter (${processed}/${organisasjonsnumre.length})`);
-    } catch (error) {
-      console.error(`[${orgnr}] Klarte ikke å hente årsregnskap`, error);
+    if (processed > 0) {
+      try {
+        await refreshPeerDistributions(client);
+      } catch (error) {
+        console.error('Klarte ikke å beregne fordelinger for sammenligning', error);
+      }
     }
+  } finally {
+    client.release();
+    await closePool();
   }
-
-  await client.end();
   
   // Rydd opp temp PDF-filer
   try {
@@ -411,43 +432,50 @@ async function main() {
     console.warn('Feil ved opprydding av temp PDF-filer:', (cleanupError as Error).message);
   }
   
+  logHttpMetrics();
+  logValidationSummary();
   console.log('✅ Ferdig med scraping av årsregnskap');
 }
 
-async function fetchOrgNumbers(client: ReturnType<typeof createPostgresClient>): Promise<string[]> {
+async function fetchOrgNumbers(client: PostgresClient): Promise<string[]> {
   const result = await client.query<{ organisasjonsnummer: string }>(
     'SELECT organisasjonsnummer FROM brreg_companies ORDER BY organisasjonsnummer ASC LIMIT 10',
   );
   return result.rows.map((row) => row.organisasjonsnummer.replace(/\D+/g, '')).filter(Boolean);
 }
 
-async function ensureAnnualReportTable(client: ReturnType<typeof createPostgresClient>) {
-  await client.query(`
-    CREATE TABLE IF NOT EXISTS brreg_annual_reports (
-      organisasjonsnummer TEXT NOT NULL,
-      ar INTEGER NOT NULL,
-      data JSONB NOT NULL,
-      scraped_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-      PRIMARY KEY (organisasjonsnummer, ar)
-    );
-  `);
-}
-
 async function upsertAnnualReport(
-  client: ReturnType<typeof createPostgresClient>,
+  client: PostgresClient,
   orgnr: string,
   report: AnnualReport,
 ) {
-  await client.query(
-    `
-      INSERT INTO brreg_annual_reports (organisasjonsnummer, ar, data)
-      VALUES ($1, $2, $3)
-      ON CONFLICT (organisasjonsnummer, ar) DO UPDATE
-      SET data = EXCLUDED.data,
-          scraped_at = NOW();
-    `,
-    [orgnr, report.year, report.data],
-  );
+  // Årsregnskapet og nøkkeltallene skrives i samme transaksjon, slik at de ikke kan komme i utakt
+  await client.query('BEGIN');
+  try {
+    await client.query(
+      `
+        INSERT INTO brreg_annual_reports (organisasjonsnummer, ar, fra_dato, til_dato, data)
+        VALUES ($1, $2, $3, $4, $5)
+        ON CONFLICT (organisasjonsnummer, fra_dato, til_dato) DO UPDATE
+        SET data = EXCLUDED.data,
+            scraped_at = NOW();
+      `,
+      [orgnr, report.year, report.periode.fraDato, report.periode.tilDato, report.data],
+    );
+
+    if (report.data.regnskap) {
+      await upsertFinancials(
+        client,
+        orgnr,
+        { ...report.data.regnskap, ar: report.year, periode: report.periode },
+        report.data.source,
+      );
+    }
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  }
 }
 
 async function fetchAnnualReports(orgnr: string): Promise<AnnualReport[]> {
@@ -464,8 +492,8 @@ async function fetchAnnualReports(orgnr: string): Promise<AnnualReport[]> {
 }
 
 // Hent årsregnskap fra nettsiden ved å parse HTML og finne JSON-data
-async function extractFromWebsite(orgnr: string, axios: any): Promise<Array<{ year: number; documents: Array<Record<string, unknown>>; raw: Record<string, unknown> }>> {
-  const entries: Array<{ year: number; documents: Array<Record<string, unknown>>; raw: Record<string, unknown> }> = [];
+async function extractFromWebsite(orgnr: string, http: HttpClient): Promise<RegnskapEntry[]> {
+  const entries: RegnskapEntry[] = [];
   
   try {
     // Bruk samme URL som Python-koden
@@ -473,7 +501,7 @@ async function extractFromWebsite(orgnr: string, axios: any): Promise<Array<{ ye
     
     console.log(`[${orgnr}] Henter HTML fra ${url}...`);
     
-    const response = await axios.get(url, {
+    const response = await http.get(url, {
       headers: {
         'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
         'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
@@ -498,7 +526,7 @@ async function extractFromWebsite(orgnr: string, axios: any): Promise<Array<{ ye
     if (regnskapsAarIdx === -1) {
       console.log(`[${orgnr}] Fant ikke regnskapsAarResponse i HTML`);
       // Fallback til API-metoden
-      return await extractYearsFromApiFallback(orgnr, axios);
+      return await extractYearsFromApiFallback(orgnr, http);
     }
     
     // Ekstraher en større chunk med data for å finne både år og journalnummer
@@ -645,7 +673,7 @@ async function extractFromWebsite(orgnr: string, axios: any): Promise<Array<{ ye
     
     if (uniqueYears.length === 0) {
       console.log(`[${orgnr}] Fant ingen år i regnskapsAarResponse`);
-      return await extractYearsFromApiFallback(orgnr, axios);
+      return await extractYearsFromApiFallback(orgnr, http);
     }
     
     console.log(`[${orgnr}] Fant ${uniqueYears.length} tilgjengelige år fra nettsiden: ${uniqueYears.join(', ')}`);
@@ -661,7 +689,7 @@ async function extractFromWebsite(orgnr: string, axios: any): Promise<Array<{ ye
 
         try {
           const apiUrl = `https://data.brreg.no/regnskapsregisteret/regnskap/${orgnr}?journalnr=${journalNr}`;
-          const apiResponse = await axios.get(apiUrl, {
+          const apiResponse = await http.get(apiUrl, {
             headers: { Accept: 'application/json' },
             timeout: 10000,
             validateStatus: (status: number) => status === 200 || status === 404,
@@ -688,7 +716,7 @@ async function extractFromWebsite(orgnr: string, axios: any): Promise<Array<{ ye
               entries.push({
                 year: actualYear,
                 documents: Array.isArray(documents) ? documents : [],
-                raw: data as Record<string, unknown>,
+                raw: data as RegnskapResponse,
               });
               console.log(`[${orgnr}] Fant regnskap for ${actualYear} via API med journalnummer ${journalNr} fra HTML`);
             }
@@ -730,9 +758,11 @@ async function extractFromWebsite(orgnr: string, axios: any): Promise<Array<{ ye
         const body = JSON.stringify([orgnr, year.toString()]);
         
         try {
-          const serverActionResponse = await axios.post(baseUrl, body, {
+          const serverActionResponse = await http.post(baseUrl, body, {
             headers: serverActionHeaders,
             timeout: 120000,
+            // Lange kall: ett nytt forsøk er nok før vi går videre til neste action ID
+            retries: 1,
             validateStatus: (status: number) => status === 200 || status === 404 || status === 400 || status === 500,
             responseType: 'arraybuffer', // For å kunne lese både JSON og PDF
           });
@@ -763,7 +793,7 @@ async function extractFromWebsite(orgnr: string, axios: any): Promise<Array<{ ye
                 entries.push({
                   year: actualYear,
                   documents: Array.isArray(documents) ? documents : [],
-                  raw: jsonData as Record<string, unknown>,
+                  raw: jsonData as RegnskapResponse,
                 });
                 console.log(`[${orgnr}] Fant regnskap for ${actualYear} via Next.js Server Action (JSON) (journalnr: ${jsonData.journalnr || jsonData.journalnummer || jsonData.id})`);
                 continue; // Hopp til neste år
@@ -772,7 +802,7 @@ async function extractFromWebsite(orgnr: string, axios: any): Promise<Array<{ ye
               // Ikke JSON, sannsynligvis PDF-data - last ned og parse PDF
               try {
                 console.log(`[${orgnr}] Laster ned PDF for ${year}...`);
-                const pdfData = await downloadAndParsePdf(orgnr, year, responseData, axios);
+                const pdfData = await downloadAndParsePdf(orgnr, year, responseData, http);
                 if (pdfData) {
                   entries.push({
                     year,
@@ -838,7 +868,7 @@ async function extractFromWebsite(orgnr: string, axios: any): Promise<Array<{ ye
           if (journalNr) {
             try {
               const apiUrl = `https://data.brreg.no/regnskapsregisteret/regnskap/${orgnr}?journalnr=${journalNr}`;
-              const apiResponse = await axios.get(apiUrl, {
+              const apiResponse = await http.get(apiUrl, {
                 headers: { Accept: 'application/json' },
                 timeout: 10000,
                 validateStatus: (status: number) => status === 200 || status === 404,
@@ -851,7 +881,7 @@ async function extractFromWebsite(orgnr: string, axios: any): Promise<Array<{ ye
                   entries.push({
                     year,
                     documents: Array.isArray(documents) ? documents : [],
-                    raw: data as Record<string, unknown>,
+                    raw: data as RegnskapResponse,
                   });
                   console.log(`[${orgnr}] Fant regnskap for ${year} via journalnummer ${journalNr}`);
                   continue; // Hopp til neste år
@@ -884,7 +914,7 @@ async function extractFromWebsite(orgnr: string, axios: any): Promise<Array<{ ye
         try {
           // Prøv å hente regnskap via journalnummer
           const apiUrl = `https://data.brreg.no/regnskapsregisteret/regnskap/${orgnr}?journalnr=${journalNr}`;
-          const apiResponse = await axios.get(apiUrl, {
+          const apiResponse = await http.get(apiUrl, {
             headers: { Accept: 'application/json' },
             timeout: 10000,
             validateStatus: (status: number) => status === 200 || status === 404,
@@ -897,7 +927,7 @@ async function extractFromWebsite(orgnr: string, axios: any): Promise<Array<{ ye
               entries.push({
                 year,
                 documents: Array.isArray(documents) ? documents : [],
-                raw: data as Record<string, unknown>,
+                raw: data as RegnskapResponse,
               });
               console.log(`[${orgnr}] Fant regnskap for ${year} via journalnummer ${journalNr}`);
             }
@@ -1041,7 +1071,7 @@ async function extractFromWebsite(orgnr: string, axios: any): Promise<Array<{ ye
       
       try {
         const apiUrl = `https://data.brreg.no/regnskapsregisteret/regnskap/${orgnr}?ar=${year}`;
-        const apiResponse = await axios.get(apiUrl, {
+        const apiResponse = await http.get(apiUrl, {
           headers: { Accept: 'application/json' },
           timeout: 10000,
           validateStatus: (status: number) => status === 200 || status === 404,
@@ -1118,7 +1148,7 @@ async function extractFromWebsite(orgnr: string, axios: any): Promise<Array<{ ye
     } catch (error) {
     console.warn(`[${orgnr}] Feil ved henting fra nettsiden:`, (error as Error).message);
     // Fallback til API-metoden
-    return await extractYearsFromApiFallback(orgnr, axios);
+    return await extractYearsFromApiFallback(orgnr, http);
   }
 }
 
@@ -1167,12 +1197,12 @@ function findRegnskapInData(data: unknown, orgnr: string): Array<Record<string,
 }
 
 // Fallback: Hent år fra API (samme som Python-koden)
-async function extractYearsFromApiFallback(orgnr: string, axios: any): Promise<Array<{ year: number; documents: Array<Record<string, unknown>>; raw: Record<string, unknown> }>> {
-  const entries: Array<{ year: number; documents: Array<Record<string, unknown>>; raw: Record<string, unknown> }> = [];
+async function extractYearsFromApiFallback(orgnr: string, http: HttpClient): Promise<RegnskapEntry[]> {
+  const entries: RegnskapEntry[] = [];
   
   try {
     const url = `https://data.brreg.no/regnskapsregisteret/regnskap/${orgnr}`;
-    const response = await axios.get(url, {
+    const response = await http.get(url, {
       headers: { Accept: 'application/json' },
       timeout: 10000,
     });
@@ -1197,7 +1227,7 @@ async function extractYearsFromApiFallback(orgnr: string, axios: any): Promise<A
             entries.push({
               year,
               documents: Array.isArray(documents) ? documents : [],
-              raw: item as Record<string, unknown>,
+              raw: item as RegnskapResponse,
             });
           }
         }
@@ -1215,16 +1245,16 @@ async function extractYearsFromApiFallback(orgnr: string, axios: any): Promise<A
 
 async function extractFromRegnskapApi(orgnr: string): Promise<AnnualReport[]> {
   try {
-    const entries: Array<{ year: number; documents: Array<Record<string, unknown>>; raw: Record<string, unknown> }> = [];
+    const entries: RegnskapEntry[] = [];
     const seenYearJournalPairs = new Set<string>(); // Kombinasjon av år og journalnummer for å unngå duplikater
     
-    // Importer axios én gang
-    const axios = (await import('axios')).default;
+    // Alle kall går via den felles klienten (rate limiting, retry og backoff)
+    const http = httpClient;
     
     // Først prøv å hente data fra nettsiden (kan ha flere årsregnskap)
     console.log(`[${orgnr}] Prøver å hente årsregnskap fra nettsiden...`);
     try {
-      const websiteEntries = await extractFromWebsite(orgnr, axios);
+      const websiteEntries = await extractFromWebsite(orgnr, http);
       for (const entry of websiteEntries) {
         const journalNr = entry.raw.journalnr || entry.raw.journalnummer || entry.raw.id;
         const duplicateKey = `${entry.year}-${journalNr || 'unknown'}`;
@@ -1245,7 +1275,7 @@ async function extractFromRegnskapApi(orgnr: string): Promise<AnnualReport[]> {
     console.log(`[${orgnr}] Prøver å hente alle regnskap uten år-parameter...`);
     try {
       const url = `https://data.brreg.no/regnskapsregisteret/regnskap/${orgnr}`;
-      const response = await axios.get(url, {
+      const response = await http.get(url, {
         headers: { Accept: 'application/json' },
         timeout: 15000,
         validateStatus: (status) => status === 200 || status === 404,
@@ -1354,7 +1384,7 @@ async function extractFromRegnskapApi(orgnr: string): Promise<AnnualReport[]> {
       try {
         // Hent regnskap for dette året
         const url = `https://data.brreg.no/regnskapsregisteret/regnskap/${orgnr}?ar=${year}`;
-        const response = await axios.get(url, {
+        const response = await http.get(url, {
           headers: { Accept: 'application/json' },
           timeout: 10000,
           validateStatus: (status) => status === 200 || status === 404, // Aksepter både 200 og 404
@@ -1502,13 +1532,16 @@ async function extractFromRegnskapApi(orgnr: string): Promise<AnnualReport[]> {
         });
       }
 
+      const regnskap = normalizeRegnskap(entry.raw, entry.year);
       reports.push({
         year: entry.year,
+        periode: fiscalPeriod(entry.year, regnskap?.periode),
         data: {
           source: 'regnskap-api',
           summary: entry.raw,
           documents,
           raw: entry.raw,
+          regnskap,
         },
       });
     }
@@ -1617,13 +1650,15 @@ function extractSizeFromDocument(doc: Record<string, unknown>): number | undefin
   return undefined;
 }
 
+// Flere regnskapsperioder kan slutte i samme år (avvikende regnskapsår, forkortet første år),
+// så duplikater er regnskap for samme periode
 function dedupeReports(reports: AnnualReport[]): AnnualReport[] {
-  const map = new Map<number, AnnualReport>();
+  const map = new Map<string, AnnualReport>();
   for (const report of reports) {
     if (!report.year || Number.isNaN(report.year)) {
       continue;
     }
-    map.set(report.year, report);
+    map.set(`${report.periode.fraDato}/${report.periode.tilDato}`, report);
   }
   return Array.from(map.values());
 }
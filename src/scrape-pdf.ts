@@ -3,9 +3,11 @@ import * as path from 'path';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import pdf from 'pdf-parse';
-import axios from 'axios';
 import { createWorker } from 'tesseract.js';
-import { createPostgresClient, getPostgresEnvConfig } from './postgres';
+import { getPool } from './db';
+import { httpClient } from './http-client';
+import { AnnualReportData, fiscalPeriod, FiscalPeriod, normalizeRegnskap, Regnskap, RegnskapResponse } from './regnskap-model';
+import { upsertFinancials } from './financials';
 import puppeteer from 'puppeteer';
 
 const execAsync = promisify(exec);
@@ -50,7 +52,7 @@ export async function scrapePdfForYear(
     console.log(`[${orgnr}] Prøver først å hente via API for ${year}...`);
     try {
       const apiUrl = `https://data.brreg.no/regnskapsregisteret/regnskap/${orgnr}?ar=${year}`;
-      const apiResponse = await axios.get(apiUrl, {
+      const apiResponse = await httpClient.get(apiUrl, {
         headers: { Accept: 'application/json' },
         timeout: 10000,
         validateStatus: (status: number) => status === 200 || status === 404,
@@ -60,8 +62,8 @@ export async function scrapePdfForYear(
         const data = Array.isArray(apiResponse.data) ? apiResponse.data[0] : apiResponse.data;
         if (data && typeof data === 'object') {
           // VIKTIG: Sjekk at dette faktisk er regnskap for det riktige året
-          const periode = data.regnskapsperiode as Record<string, unknown> | undefined;
-          const tilDato = periode?.tilDato as string | undefined;
+          const regnskap = normalizeRegnskap(data, year);
+          const tilDato = regnskap?.periode.tilDato;
           let actualYear: number | null = null;
           
           if (tilDato && typeof tilDato === 'string') {
@@ -77,7 +79,7 @@ export async function scrapePdfForYear(
             // Fortsett til PDF-download
           } else {
             // Året matcher (eller vi kunne ikke bestemme året), prøv å hente årsresultat
-            const aarsresultat = extractAarsresultatFromJson(data);
+            const aarsresultat = regnskap?.resultatregnskap.aarsresultat ?? null;
             if (aarsresultat !== null) {
               const yearInfo = actualYear ? ` (bekreftet år: ${actualYear})` : '';
               console.log(`[${orgnr}] ✅ Fant årsresultat ${aarsresultat} via API for ${year}${yearInfo}`);
@@ -129,9 +131,11 @@ export async function scrapePdfForYear(
         
         console.log(`[${orgnr}] Prøver Server Action med ID: ${nextActionId.substring(0, 10)}...`);
         
-        const serverActionResponse = await axios.post(baseUrl, body, {
+        const serverActionResponse = await httpClient.post(baseUrl, body, {
           headers: serverActionHeaders,
           timeout: 120000,
+          // Lange kall: ett nytt forsøk er nok før vi går videre til neste action ID
+          retries: 1,
           validateStatus: (status: number) => status === 200 || status === 404 || status === 400 || status === 500,
           responseType: 'arraybuffer',
         });
@@ -464,7 +468,7 @@ async function parsePdfAndExtractAarsresultat(
           if (journalNr) {
             try {
               const apiUrl = `https://data.brreg.no/regnskapsregisteret/regnskap/${orgnr}?journalnr=${journalNr}`;
-              const apiResponse = await axios.get(apiUrl, {
+              const apiResponse = await httpClient.get(apiUrl, {
                 headers: { Accept: 'application/json' },
                 timeout: 10000,
                 validateStatus: (status: number) => status === 200 || status === 404,
@@ -474,8 +478,8 @@ async function parsePdfAndExtractAarsresultat(
                 const data = Array.isArray(apiResponse.data) ? apiResponse.data[0] : apiResponse.data;
                 if (data && typeof data === 'object') {
                   // Sjekk at det er for riktig år
-                  const periode = data.regnskapsperiode as Record<string, unknown> | undefined;
-                  const tilDato = periode?.tilDato as string | undefined;
+                  const regnskap = normalizeRegnskap(data, year);
+                  const tilDato = regnskap?.periode.tilDato;
                   let actualYear: number | null = null;
                   
                   if (tilDato && typeof tilDato === 'string') {
@@ -486,7 +490,7 @@ async function parsePdfAndExtractAarsresultat(
                   }
                   
                   if (actualYear === year || actualYear === null) {
-                    const aarsresultat = extractAarsresultatFromJson(data);
+                    const aarsresultat = regnskap?.resultatregnskap.aarsresultat ?? null;
                     if (aarsresultat !== null) {
                       console.log(`[${orgnr}] ✅ Fant årsresultat ${aarsresultat} via API med journalnummer fra PDF-metadata for ${year}`);
                       await updateAnnualReportInDatabase(orgnr, year, aarsresultat, null, null);
@@ -1294,36 +1298,6 @@ async function downloadPdfWithPuppeteer(orgnr: string, year: number): Promise<Bu
   }
 }
 
-/**
- * Ekstrakterer årsresultat fra JSON-data
- */
-function extractAarsresultatFromJson(jsonData: Record<string, unknown>): number | null {
-  // Prøv forskjellige steder i JSON-strukturen
-  const paths = [
-    ['resultatregnskapResultat', 'aarsresultat'],
-    ['aarsresultat'],
-    ['resultat', 'aarsresultat'],
-    ['regnskap', 'resultat', 'aarsresultat'],
-  ];
-  
-  for (const path of paths) {
-    let value: unknown = jsonData;
-    for (const key of path) {
-      if (value && typeof value === 'object' && key in value) {
-        value = (value as Record<string, unknown>)[key];
-      } else {
-        value = null;
-        break;
-      }
-    }
-    if (value !== null && typeof value === 'number') {
-      return value;
-    }
-  }
-  
-  return null;
-}
-
 /**
  * Oppdaterer årsregnskap i databasen med ekstrahert årsresultat
  */
@@ -1334,80 +1308,85 @@ async function updateAnnualReportInDatabase(
   salgsinntekt: number | null = null,
   sumInntekter: number | null = null
 ): Promise<void> {
-  const postgresConfig = getPostgresEnvConfig();
-  const client = createPostgresClient(postgresConfig);
+  const client = await getPool().connect();
   
   try {
-    await client.connect();
-    
-    // Hent eksisterende data
-    const result = await client.query<{ data: Record<string, unknown> }>(
-      'SELECT data FROM brreg_annual_reports WHERE organisasjonsnummer = $1 AND ar = $2',
+    // Årsregnskapet og nøkkeltallene skrives i samme transaksjon, slik at de ikke kan komme i utakt
+    await client.query('BEGIN');
+
+    // Hent eksisterende data. Slutter flere regnskapsperioder i året, gjelder PDF-en den siste.
+    const result = await client.query<{ data: AnnualReportData; fra_dato: string; til_dato: string }>(
+      `SELECT data, to_char(fra_dato, 'YYYY-MM-DD') AS fra_dato, to_char(til_dato, 'YYYY-MM-DD') AS til_dato
+       FROM brreg_annual_reports WHERE organisasjonsnummer = $1 AND ar = $2
+       ORDER BY til_dato DESC, fra_dato DESC LIMIT 1
+       FOR UPDATE`,
       [orgnr, year]
     );
     
+    const figures = {
+      ...(aarsresultat !== null ? { aarsresultat } : {}),
+      ...(salgsinntekt !== null ? { salgsinntekt } : {}),
+      ...(sumInntekter !== null ? { sumInntekter } : {}),
+    };
+    
+    let regnskap: Regnskap | null;
+    let periode: FiscalPeriod;
     if (result.rows.length === 0) {
-      // Opprett ny oppføring hvis den ikke eksisterer
-      const newData: Record<string, unknown> = {
+      // Opprett ny oppføring hvis den ikke eksisterer; uten periode fra API-et regnes den som kalenderåret
+      const raw: RegnskapResponse = {
+        year,
+        hasJsonData: false,
+        source: 'pdf-only',
+        orgnr,
+        resultatregnskapResultat: figures,
+      };
+      regnskap = normalizeRegnskap(raw, year);
+      periode = fiscalPeriod(year);
+      const newData: AnnualReportData = {
         source: 'pdf-scraped',
-        raw: {
-          year,
-          hasJsonData: false,
-          source: 'pdf-only',
-          orgnr,
-          resultatregnskapResultat: {
-            ...(aarsresultat !== null ? { aarsresultat } : {}),
-            ...(salgsinntekt !== null ? { salgsinntekt } : {}),
-            ...(sumInntekter !== null ? { sumInntekter } : {}),
-          },
-        },
+        raw,
+        regnskap,
       };
       
       await client.query(
-        'INSERT INTO brreg_annual_reports (organisasjonsnummer, ar, data) VALUES ($1, $2, $3)',
-        [orgnr, year, JSON.stringify(newData)]
+        'INSERT INTO brreg_annual_reports (organisasjonsnummer, ar, fra_dato, til_dato, data) VALUES ($1, $2, $3, $4, $5)',
+        [orgnr, year, periode.fraDato, periode.tilDato, JSON.stringify(newData)]
       );
     } else {
-      // Oppdater eksisterende data
+      // Oppdater eller legg til nøkkeltallene i eksisterende data
       const existingData = result.rows[0].data;
-      
-      // Oppdater eller legg til årsresultat
-      if (!existingData.raw || typeof existingData.raw !== 'object') {
-        existingData.raw = {};
-      }
-      
-      const raw = existingData.raw as Record<string, unknown>;
-      if (!raw.resultatregnskapResultat || typeof raw.resultatregnskapResultat !== 'object') {
-        raw.resultatregnskapResultat = {};
-      }
-      
-      const resultatregnskapResultat = raw.resultatregnskapResultat as Record<string, unknown>;
-      if (aarsresultat !== null) {
-        resultatregnskapResultat.aarsresultat = aarsresultat;
-      }
-      if (salgsinntekt !== null) {
-        resultatregnskapResultat.salgsinntekt = salgsinntekt;
-      }
-      if (sumInntekter !== null) {
-        resultatregnskapResultat.sumInntekter = sumInntekter;
-      }
+      periode = { fraDato: result.rows[0].fra_dato, tilDato: result.rows[0].til_dato };
+      const raw: RegnskapResponse = existingData.raw && typeof existingData.raw === 'object' ? existingData.raw : {};
+      raw.resultatregnskapResultat = { ...raw.resultatregnskapResultat, ...figures };
+      existingData.raw = raw;
+      // Den normaliserte modellen bygges på nytt slik at den stemmer med raw
+      regnskap = normalizeRegnskap(raw, year);
+      existingData.regnskap = regnskap;
       
       await client.query(
-        'UPDATE brreg_annual_reports SET data = $1 WHERE organisasjonsnummer = $2 AND ar = $3',
-        [JSON.stringify(existingData), orgnr, year]
+        'UPDATE brreg_annual_reports SET data = $1 WHERE organisasjonsnummer = $2 AND fra_dato = $3 AND til_dato = $4',
+        [JSON.stringify(existingData), orgnr, periode.fraDato, periode.tilDato]
       );
     }
     
+    if (regnskap) {
+      // Raden bestemmer perioden, også for PDF-er uten regnskapsperiode
+      await upsertFinancials(client, orgnr, { ...regnskap, ar: year, periode }, 'pdf-scraped');
+    }
+
+    await client.query('COMMIT');
+    
     const updates = [];
     if (aarsresultat !== null) updates.push(`årsresultat ${aarsresultat}`);
     if (salgsinntekt !== null) updates.push(`salgsinntekt ${salgsinntekt}`);
     if (sumInntekter !== null) updates.push(`sum inntekter ${sumInntekter}`);
     console.log(`[${orgnr}] Oppdaterte årsregnskap for ${year} med ${updates.join(', ')} i databasen`);
   } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
     console.error(`[${orgnr}] Feil ved oppdatering av database for ${year}:`, (error as Error).message);
     throw error;
   } finally {
-    await client.end();
+    client.release();
   }
 }
 
@@ -0,0 +1,133 @@
+/**
+ * Navnesøk i selskapstabellen
+ *
+ * Fulltekst bruker search_vector (norsk tekstsøkskonfigurasjon) og fuzzy-treff bruker
+ * pg_trgm på navn, slik at f.eks. "Equinr" finner "EQUINOR ASA". Se migrations/0009-company-search.ts.
+ */
+
+import { withClient } from './db';
+import { getPostgresEnvConfig, sanitizeIdentifier } from './postgres';
+
+export interface SearchResult {
+  organisasjonsnummer: string;
+  navn: string | null;
+  organisasjonsform_kode: string | null;
+  naeringskode1: string | null;
+  poststed: string | null;
+  rank: number;
+  /** Navnet med <mark> rundt ordene som traff fulltekstsøket */
+  highlight: string | null;
+  /** Utdrag fra næringsbeskrivelsen med <mark> rundt treff */
+  snippet: string | null;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  offset?: number;
+}
+
+export interface AutocompleteSuggestion {
+  organisasjonsnummer: string;
+  navn: string;
+}
+
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true';
+// Kortere søk gir for få trigrammer til at fuzzy-treff gir mening
+const MIN_FUZZY_LENGTH = 3;
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+/**
+ * Rangert søk: fulltekst (websearch-syntaks, f.eks. "olje -service") eller fuzzy navnetreff.
+ * Rangeringen er summen av ts_rank_cd og word_similarity mot navnet.
+ */
+export async function searchCompanies(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+  const tableName = sanitizeIdentifier(getPostgresEnvConfig().tableName);
+  const { limit = 20, offset = 0 } = options;
+  const q = query.trim();
+
+  return withClient(async (client) => {
+    const result = await client.query<SearchResult>(
+      `
+        WITH query AS (
+          SELECT websearch_to_tsquery('norwegian', $1) AS tsq
+        ),
+        matches AS (
+          SELECT
+            c.organisasjonsnummer,
+            c.navn,
+            c.organisasjonsform_kode,
+            c.naeringskode1,
+            c.data->'naeringskode1'->>'beskrivelse' AS naeringsbeskrivelse,
+            c.data->'forretningsadresse'->>'poststed' AS poststed,
+            ts_rank_cd(c.search_vector, query.tsq) + word_similarity($1, COALESCE(c.navn, '')) AS rank
+          FROM ${tableName} c, query
+          WHERE c.deleted_at IS NULL
+            AND (c.search_vector @@ query.tsq OR (length($1) >= ${MIN_FUZZY_LENGTH} AND $1 <% c.navn))
+          ORDER BY rank DESC, c.navn
+          LIMIT $2
+          OFFSET $3
+        )
+        SELECT
+          m.organisasjonsnummer,
+          m.navn,
+          m.organisasjonsform_kode,
+          m.naeringskode1,
+          m.poststed,
+          round(m.rank::numeric, 4)::float AS rank,
+          ts_headline('norwegian', COALESCE(m.navn, ''), query.tsq, '${HEADLINE_OPTIONS}') AS highlight,
+          CASE WHEN m.naeringsbeskrivelse IS NULL THEN NULL
+               ELSE ts_headline('norwegian', m.naeringsbeskrivelse, query.tsq, '${HEADLINE_OPTIONS}')
+          END AS snippet
+        FROM matches m, query
+        ORDER BY m.rank DESC, m.navn
+      `,
+      [q, limit, offset],
+    );
+    return result.rows;
+  });
+}
+
+/**
+ * Raske forslag mens brukeren skriver: navn som starter med teksten først (btree-indeks),
+ * deretter fuzzy-treff på ord i navnet (trigram-indeks)
+ */
+export async function autocompleteCompanies(query: string, limit = 10): Promise<AutocompleteSuggestion[]> {
+  const tableName = sanitizeIdentifier(getPostgresEnvConfig().tableName);
+  const q = query.trim();
+  const prefix = `${escapeLike(q.toLowerCase())}%`;
+
+  return withClient(async (client) => {
+    const result = await client.query<AutocompleteSuggestion>(
+      `
+        SELECT organisasjonsnummer, navn
+        FROM (
+          (
+            SELECT organisasjonsnummer, navn, 0 AS tier, 1::real AS score
+            FROM ${tableName}
+            WHERE deleted_at IS NULL AND lower(navn) LIKE $2
+            ORDER BY lower(navn)
+            LIMIT $3
+          )
+          UNION ALL
+          (
+            SELECT organisasjonsnummer, navn, 1 AS tier, word_similarity($1, navn) AS score
+            FROM ${tableName}
+            WHERE deleted_at IS NULL
+              AND length($1) >= ${MIN_FUZZY_LENGTH}
+              AND $1 <% navn
+              AND lower(navn) NOT LIKE $2
+            ORDER BY score DESC
+            LIMIT $3
+          )
+        ) suggestions
+        ORDER BY tier, score DESC, length(navn), navn
+        LIMIT $3
+      `,
+      [q, prefix, limit],
+    );
+    return result.rows;
+  });
+}
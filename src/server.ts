@@ -2,9 +2,36 @@ import express, { Request, Response } from 'express';
 import dotenv from 'dotenv';
 import * as path from 'path';
 
-import { fetchCompaniesFromPostgres } from './print-postgres-companies';
-import { fetchAnnualReportsFromPostgres } from './fetch-annual-reports';
+import { checkDatabaseHealth, closePool } from './db';
+import {
+  CompanyQueryError,
+  fetchCompaniesFromPostgres,
+  fetchCompanyPage,
+  parseCompanyFilter,
+  parseCompanyPageOptions,
+} from './print-postgres-companies';
+import { AnnualReportQueryError, fetchAnnualReportsFromPostgres, parseAnnualReportsQuery } from './fetch-annual-reports';
+import { exportAnnualReports, exportCompanies, EXPORT_FORMATS, parseExportFormat } from './export-data';
+import { fetchUnderenheterFromPostgres } from './fetch-underenheter';
+import { fetchRolesFromPostgres } from './fetch-roles';
+import { fetchCompanyAsOf, fetchCompanyHistory } from './fetch-company-history';
+import { fetchCompanyDetail } from './fetch-company-detail';
+import { BenchmarkQueryError, fetchCompanyBenchmark, parseBenchmarkOptions } from './peer-benchmark';
+import { isValidOrganisasjonsnummer } from './validation';
+import { fetchSyncRunReport, fetchSyncRuns } from './print-sync-report';
+import { autocompleteCompanies, searchCompanies } from './search-companies';
+import { ChangeType, formatReportAsMarkdown } from './sync-report';
+import {
+  fetchKommuner,
+  fetchNaceSectionSummary,
+  fetchNaeringskode,
+  fetchNaeringskoder,
+  fetchOrganisasjonsformer,
+  fetchSektorkoder,
+} from './fetch-reference-data';
+import { buildBoardNetwork, fetchCompaniesForPerson, toGraphMl, BoardNetwork, PersonKey } from './board-network';
 import { scrapePdfForYear } from './scrape-pdf';
+import { getHttpMetrics } from './http-client';
 
 dotenv.config();
 
@@ -41,6 +68,11 @@ export async function createApp() {
     res.json({ message: 'API router fungerer!', timestamp: new Date().toISOString() });
   });
   
+  // Metrikker for utgående HTTP-kall per host (rate limiting, retries, 429)
+  apiRouter.get('/http-metrics', (_req: Request, res: Response) => {
+    res.json(getHttpMetrics());
+  });
+
   apiRouter.post('/scrape-pdf', async (req: Request, res: Response) => {
     const timestamp = new Date().toISOString();
     console.log(`\n${'='.repeat(80)}`);
@@ -128,9 +160,18 @@ export async function createApp() {
     res.json({ status: 'ok' });
   });
 
-  app.get('/companies', async (_req: Request, res: Response) => {
+  // Sjekker at databasen svarer og viser status for connection pool
+  app.get('/healthz/db', async (_req: Request, res: Response) => {
+    const health = await checkDatabaseHealth();
+    res.status(health.ok ? 200 : 503).json(health);
+  });
+
+  app.get('/companies', async (req: Request, res: Response) => {
     try {
-      const companies = await fetchCompaniesFromPostgres();
+      const companies = await fetchCompaniesFromPostgres({
+        includeDeleted: req.query.includeDeleted === 'true',
+        filter: parseCompanyFilter(req.query),
+      });
       res.json(companies);
     } catch (error) {
       console.error('Failed to fetch companies', error);
@@ -151,11 +192,14 @@ export async function createApp() {
   app.get('/api/annual-reports', async (req: Request, res: Response) => {
     try {
       const organisasjonsnummer = req.query.orgnr as string | undefined;
-      const reports = await fetchAnnualReportsFromPostgres(organisasjonsnummer);
+      const reports = await fetchAnnualReportsFromPostgres(organisasjonsnummer, parseAnnualReportsQuery(req.query));
       res.json(reports);
     } catch (error) {
-      console.error('Failed to fetch annual reports', error);
       const err = error as Error;
+      if (error instanceof AnnualReportQueryError) {
+        return res.status(400).json({ message: 'Ugyldig forespørsel', error: err.message });
+      }
+      console.error('Failed to fetch annual reports', error);
       const isTimeout = err.message.includes('ETIMEDOUT') || err.message.includes('timeout');
       const isConnectionError = err.message.includes('ECONNREFUSED') || err.message.includes('connect') || err.message.includes('kunne ikke koble');
       
@@ -172,6 +216,399 @@ export async function createApp() {
     }
   });
 
+  // Paginert liste med keyset-cursor; /companies beholdes for eldre klienter
+  app.get('/api/companies', async (req: Request, res: Response) => {
+    try {
+      const page = await fetchCompanyPage({
+        ...parseCompanyPageOptions(req.query),
+        filter: parseCompanyFilter(req.query),
+      });
+      res.json(page);
+    } catch (error) {
+      const err = error as Error;
+      if (error instanceof CompanyQueryError) {
+        return res.status(400).json({ message: 'Ugyldig forespørsel', error: err.message });
+      }
+      console.error('Failed to fetch companies', error);
+      res.status(500).json({ message: 'Kunne ikke hente selskaper', error: err.message });
+    }
+  });
+
+  // Eksport strømmes fra en databasecursor; feil etter at nedlastingen har startet avbryter responsen
+  const sendExportError = (res: Response, message: string, error: unknown) => {
+    console.error(message, error);
+    if (res.headersSent) {
+      res.destroy(error as Error);
+      return;
+    }
+    res.status(500).json({ message, error: (error as Error).message });
+  };
+
+  app.get('/api/export/companies', async (req: Request, res: Response) => {
+    const format = parseExportFormat(req.query.format);
+    if (!format) {
+      return res.status(400).json({ message: 'Ugyldig format', error: `format må være ${EXPORT_FORMATS.join(', ')}` });
+    }
+
+    try {
+      const { fields, includeDeleted } = parseCompanyPageOptions(req.query);
+      await exportCompanies(res, format, { fields, includeDeleted, filter: parseCompanyFilter(req.query) });
+    } catch (error) {
+      if (error instanceof CompanyQueryError) {
+        return res.status(400).json({ message: 'Ugyldig forespørsel', error: error.message });
+      }
+      sendExportError(res, 'Kunne ikke eksportere selskaper', error);
+    }
+  });
+
+  app.get('/api/export/annual-reports', async (req: Request, res: Response) => {
+    const format = parseExportFormat(req.query.format);
+    if (!format) {
+      return res.status(400).json({ message: 'Ugyldig format', error: `format må være ${EXPORT_FORMATS.join(', ')}` });
+    }
+
+    try {
+      await exportAnnualReports(res, format, req.query.orgnr as string | undefined, parseAnnualReportsQuery(req.query));
+    } catch (error) {
+      if (error instanceof AnnualReportQueryError) {
+        return res.status(400).json({ message: 'Ugyldig forespørsel', error: error.message });
+      }
+      sendExportError(res, 'Kunne ikke eksportere årsregnskap', error);
+    }
+  });
+
+  // asOf=YYYY-MM-DD; undefined uten parameter, null hvis den er ugyldig
+  const parseAsOf = (req: Request): Date | null | undefined => {
+    if (typeof req.query.asOf !== 'string' || !req.query.asOf) {
+      return undefined;
+    }
+    const asOf = new Date(req.query.asOf);
+    return /^\d{4}-\d{2}-\d{2}/.test(req.query.asOf) && !Number.isNaN(asOf.getTime()) ? asOf : null;
+  };
+
+  // Samlet visning av selskapet; med asOf returneres versjonen fra endringshistorikken
+  app.get('/api/companies/:orgnr', async (req: Request, res: Response) => {
+    const orgnr = String(req.params.orgnr).replace(/\D+/g, '');
+    if (!isValidOrganisasjonsnummer(orgnr)) {
+      return res.status(400).json({
+        message: 'Ugyldig organisasjonsnummer',
+        error: 'orgnr må ha 9 siffer med gyldig MOD11-kontrollsiffer',
+      });
+    }
+
+    const asOf = parseAsOf(req);
+    if (asOf === null) {
+      return res.status(400).json({ message: 'Ugyldig asOf', error: 'asOf må være en dato på formatet YYYY-MM-DD' });
+    }
+
+    try {
+      const company = asOf ? await fetchCompanyAsOf(orgnr, asOf) : await fetchCompanyDetail(orgnr);
+      if (!company) {
+        return res.status(404).json({
+          message: asOf ? `Fant ingen versjon av ${orgnr} per ${req.query.asOf}` : `Fant ikke ${orgnr}`,
+          error: 'Not Found',
+        });
+      }
+      res.json(company);
+    } catch (error) {
+      console.error('Failed to fetch company', error);
+      const err = error as Error;
+      res.status(500).json({ message: 'Kunne ikke hente selskap', error: err.message });
+    }
+  });
+
+  app.get('/api/companies/:orgnr/benchmark', async (req: Request, res: Response) => {
+    const orgnr = String(req.params.orgnr).replace(/\D+/g, '');
+    if (!isValidOrganisasjonsnummer(orgnr)) {
+      return res.status(400).json({
+        message: 'Ugyldig organisasjonsnummer',
+        error: 'orgnr må ha 9 siffer med gyldig MOD11-kontrollsiffer',
+      });
+    }
+
+    try {
+      const options = parseBenchmarkOptions(req.query as Record<string, unknown>);
+      const benchmark = await fetchCompanyBenchmark(orgnr, options);
+      if (!benchmark) {
+        return res.status(404).json({
+          message: options.ar ? `Fant ingen nøkkeltall for ${orgnr} i ${options.ar}` : `Fant ingen nøkkeltall for ${orgnr}`,
+          error: 'Not Found',
+        });
+      }
+      res.json(benchmark);
+    } catch (error) {
+      if (error instanceof BenchmarkQueryError) {
+        return res.status(400).json({ message: 'Ugyldig forespørsel', error: error.message });
+      }
+      console.error('Failed to fetch company benchmark', error);
+      const err = error as Error;
+      res.status(500).json({ message: 'Kunne ikke hente sammenligning', error: err.message });
+    }
+  });
+
+  app.get('/api/companies/:orgnr/history', async (req: Request, res: Response) => {
+    const orgnr = String(req.params.orgnr).replace(/\D+/g, '');
+    if (!isValidOrganisasjonsnummer(orgnr)) {
+      return res.status(400).json({
+        message: 'Ugyldig organisasjonsnummer',
+        error: 'orgnr må ha 9 siffer med gyldig MOD11-kontrollsiffer',
+      });
+    }
+
+    const asOf = parseAsOf(req);
+    if (asOf === null) {
+      return res.status(400).json({ message: 'Ugyldig asOf', error: 'asOf må være en dato på formatet YYYY-MM-DD' });
+    }
+
+    try {
+      // Alias for /api/companies/:orgnr?asOf=: versjonen som gjaldt på tidspunktet i stedet for hele historikken
+      if (asOf) {
+        const snapshot = await fetchCompanyAsOf(orgnr, asOf);
+        if (!snapshot) {
+          return res.status(404).json({ message: `Fant ingen versjon av ${orgnr} per ${req.query.asOf}`, error: 'Not Found' });
+        }
+        return res.json(snapshot);
+      }
+
+      const history = await fetchCompanyHistory(orgnr);
+      res.json(history);
+    } catch (error) {
+      console.error('Failed to fetch company history', error);
+      const err = error as Error;
+      res.status(500).json({ message: 'Kunne ikke hente endringshistorikk', error: err.message });
+    }
+  });
+
+  app.get('/api/companies/:orgnr/underenheter', async (req: Request, res: Response) => {
+    const orgnr = String(req.params.orgnr).replace(/\D+/g, '');
+    if (!isValidOrganisasjonsnummer(orgnr)) {
+      return res.status(400).json({
+        message: 'Ugyldig organisasjonsnummer',
+        error: 'orgnr må ha 9 siffer med gyldig MOD11-kontrollsiffer',
+      });
+    }
+
+    try {
+      const underenheter = await fetchUnderenheterFromPostgres(orgnr);
+      res.json(underenheter);
+    } catch (error) {
+      console.error('Failed to fetch sub-units', error);
+      const err = error as Error;
+      res.status(500).json({ message: 'Kunne ikke hente underenheter', error: err.message });
+    }
+  });
+
+  app.get('/api/companies/:orgnr/roles', async (req: Request, res: Response) => {
+    const orgnr = String(req.params.orgnr).replace(/\D+/g, '');
+    if (!isValidOrganisasjonsnummer(orgnr)) {
+      return res.status(400).json({
+        message: 'Ugyldig organisasjonsnummer',
+        error: 'orgnr må ha 9 siffer med gyldig MOD11-kontrollsiffer',
+      });
+    }
+
+    try {
+      const roles = await fetchRolesFromPostgres(orgnr);
+      res.json(roles);
+    } catch (error) {
+      console.error('Failed to fetch roles', error);
+      const err = error as Error;
+      res.status(500).json({ message: 'Kunne ikke hente roller', error: err.message });
+    }
+  });
+
+  const sendBoardNetwork = (req: Request, res: Response, network: BoardNetwork) => {
+    if (req.query.format === 'graphml') {
+      res.setHeader('Content-Type', 'application/graphml+xml; charset=utf-8');
+      res.setHeader('Content-Disposition', 'attachment; filename="board-network.graphml"');
+      return res.send(toGraphMl(network));
+    }
+    return res.json(network);
+  };
+
+  const parsePersonQuery = (req: Request): PersonKey | null => {
+    const navn = typeof req.query.navn === 'string' ? req.query.navn.trim() : '';
+    const fodselsdato = typeof req.query.fodselsdato === 'string' ? req.query.fodselsdato.trim() : '';
+    // Må være en faktisk dato; 2023-02-30 ville ellers gitt 500 fra Postgres
+    const isCalendarDate = (value: string) => {
+      const date = new Date(`${value}T00:00:00Z`);
+      return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+    };
+    if (!navn || (fodselsdato && !isCalendarDate(fodselsdato))) {
+      return null;
+    }
+    return { navn, fodselsdato: fodselsdato || null };
+  };
+
+  app.get('/api/companies/:orgnr/board-network', async (req: Request, res: Response) => {
+    const orgnr = String(req.params.orgnr).replace(/\D+/g, '');
+    if (!isValidOrganisasjonsnummer(orgnr)) {
+      return res.status(400).json({
+        message: 'Ugyldig organisasjonsnummer',
+        error: 'orgnr må ha 9 siffer med gyldig MOD11-kontrollsiffer',
+      });
+    }
+
+    try {
+      const network = await buildBoardNetwork({ orgnumre: [orgnr] }, Number(req.query.hops ?? '1') || 0);
+      sendBoardNetwork(req, res, network);
+    } catch (error) {
+      console.error('Failed to build board network', error);
+      const err = error as Error;
+      res.status(500).json({ message: 'Kunne ikke bygge styrenettverk', error: err.message });
+    }
+  });
+
+  app.get('/api/persons/companies', async (req: Request, res: Response) => {
+    const person = parsePersonQuery(req);
+    if (!person) {
+      return res.status(400).json({ message: 'Ugyldig person', error: 'navn er påkrevd, fodselsdato må ha formatet YYYY-MM-DD' });
+    }
+
+    try {
+      res.json(await fetchCompaniesForPerson(person));
+    } catch (error) {
+      console.error('Failed to fetch companies for person', error);
+      const err = error as Error;
+      res.status(500).json({ message: 'Kunne ikke hente selskaper for person', error: err.message });
+    }
+  });
+
+  app.get('/api/persons/board-network', async (req: Request, res: Response) => {
+    const person = parsePersonQuery(req);
+    if (!person) {
+      return res.status(400).json({ message: 'Ugyldig person', error: 'navn er påkrevd, fodselsdato må ha formatet YYYY-MM-DD' });
+    }
+
+    try {
+      const network = await buildBoardNetwork({ persons: [person] }, Number(req.query.hops ?? '1') || 0);
+      sendBoardNetwork(req, res, network);
+    } catch (error) {
+      console.error('Failed to build board network', error);
+      const err = error as Error;
+      res.status(500).json({ message: 'Kunne ikke bygge styrenettverk', error: err.message });
+    }
+  });
+
+  app.get('/api/search', async (req: Request, res: Response) => {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (!q) {
+      return res.status(400).json({ message: 'Ugyldig søk', error: 'q er påkrevd' });
+    }
+    const limit = Math.min(Number(req.query.limit ?? '20') || 20, 100);
+    const offset = Math.max(Number(req.query.offset ?? '0') || 0, 0);
+
+    try {
+      const results = await searchCompanies(q, { limit, offset });
+      res.json({ q, limit, offset, results });
+    } catch (error) {
+      console.error('Failed to search companies', error);
+      const err = error as Error;
+      res.status(500).json({ message: 'Kunne ikke søke i selskaper', error: err.message });
+    }
+  });
+
+  app.get('/api/search/autocomplete', async (req: Request, res: Response) => {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    // For korte søk gir forslag ingen mening; svar tomt uten å spørre databasen
+    if (q.length < 2) {
+      return res.json([]);
+    }
+
+    try {
+      res.json(await autocompleteCompanies(q, Math.min(Number(req.query.limit ?? '10') || 10, 25)));
+    } catch (error) {
+      console.error('Failed to autocomplete companies', error);
+      const err = error as Error;
+      res.status(500).json({ message: 'Kunne ikke hente forslag', error: err.message });
+    }
+  });
+
+  const sendReference = async (res: Response, load: () => Promise<unknown>) => {
+    try {
+      res.json(await load());
+    } catch (error) {
+      console.error('Failed to fetch reference data', error);
+      const err = error as Error;
+      res.status(500).json({ message: 'Kunne ikke hente referansedata', error: err.message });
+    }
+  };
+
+  app.get('/api/reference/organisasjonsformer', (_req: Request, res: Response) =>
+    sendReference(res, () => fetchOrganisasjonsformer()));
+
+  app.get('/api/reference/naeringskoder', (req: Request, res: Response) =>
+    sendReference(res, () => fetchNaeringskoder({
+      nivaa: Number(req.query.nivaa) || undefined,
+      seksjon: typeof req.query.seksjon === 'string' ? req.query.seksjon : undefined,
+      parent: typeof req.query.parent === 'string' ? req.query.parent : undefined,
+    })));
+
+  app.get('/api/reference/naeringskoder/:kode', async (req: Request, res: Response) => {
+    try {
+      const naeringskode = await fetchNaeringskode(String(req.params.kode));
+      if (!naeringskode) {
+        return res.status(404).json({ message: `Fant ikke næringskode ${req.params.kode}`, error: 'Not Found' });
+      }
+      res.json(naeringskode);
+    } catch (error) {
+      console.error('Failed to fetch reference data', error);
+      const err = error as Error;
+      res.status(500).json({ message: 'Kunne ikke hente referansedata', error: err.message });
+    }
+  });
+
+  app.get('/api/reference/nace-seksjoner', (_req: Request, res: Response) =>
+    sendReference(res, () => fetchNaceSectionSummary()));
+
+  app.get('/api/reference/sektorkoder', (_req: Request, res: Response) =>
+    sendReference(res, () => fetchSektorkoder()));
+
+  app.get('/api/reference/kommuner', (req: Request, res: Response) =>
+    sendReference(res, () => fetchKommuner(typeof req.query.fylkesnummer === 'string' ? req.query.fylkesnummer : undefined)));
+
+  app.get('/api/sync-runs', async (req: Request, res: Response) => {
+    try {
+      const runs = await fetchSyncRuns(Math.min(Number(req.query.limit ?? '20') || 20, 200));
+      res.json(runs);
+    } catch (error) {
+      console.error('Failed to fetch sync runs', error);
+      const err = error as Error;
+      res.status(500).json({ message: 'Kunne ikke hente synkroniseringer', error: err.message });
+    }
+  });
+
+  app.get('/api/sync-runs/:id', async (req: Request, res: Response) => {
+    const id = String(req.params.id);
+    if (id !== 'latest' && !/^\d+$/.test(id)) {
+      return res.status(400).json({ message: 'Ugyldig kjøring', error: 'id må være et tall eller latest' });
+    }
+
+    const changeType = typeof req.query.changeType === 'string' ? req.query.changeType.toUpperCase() : undefined;
+    if (changeType && !['CREATED', 'MODIFIED', 'DELETED'].includes(changeType)) {
+      return res.status(400).json({ message: 'Ugyldig changeType', error: 'changeType må være CREATED, MODIFIED eller DELETED' });
+    }
+
+    try {
+      const report = await fetchSyncRunReport(id === 'latest' ? 'latest' : Number(id), {
+        changeType: changeType as ChangeType | undefined,
+        limit: Math.min(Number(req.query.limit ?? '1000') || 1000, 10000),
+      });
+      if (!report) {
+        return res.status(404).json({ message: `Fant ingen kjøring ${id}`, error: 'Not Found' });
+      }
+      if (req.query.format === 'markdown') {
+        res.setHeader('Content-Type', 'text/markdown; charset=utf-8');
+        return res.send(formatReportAsMarkdown(report));
+      }
+      res.json(report);
+    } catch (error) {
+      console.error('Failed to fetch sync run report', error);
+      const err = error as Error;
+      res.status(500).json({ message: 'Kunne ikke hente synkroniseringsrapport', error: err.message });
+    }
+  });
+
   // Catch-all for unmatched routes (after static files)
   app.use((req: Request, res: Response) => {
     console.warn(`⚠️ 404: ${req.method} ${req.path} - Route not found`);
@@ -201,6 +638,21 @@ export async function startServer(port = DEFAULT_PORT) {
     server.on('error', (error) => {
       reject(error);
     });
+
+    // Slutt å ta imot nye forespørsler, vent på pågående, og steng deretter poolen
+    const shutdown = (signal: string) => {
+      console.log(`${signal} mottatt, avslutter serveren...`);
+      server.close(() => {
+        closePool()
+          .then(() => process.exit(0))
+          .catch((error) => {
+            console.error('Kunne ikke stenge databasetilkoblingene:', error);
+            process.exit(1);
+          });
+      });
+    };
+    process.once('SIGTERM', () => shutdown('SIGTERM'));
+    process.once('SIGINT', () => shutdown('SIGINT'));
   });
 }
 
@@ -0,0 +1,200 @@
+/**
+ * Script for å hente kodelister og lagre dem som referansetabeller i Postgres
+ *
+ * - Organisasjonsformer fra brreg (/enhetsregisteret/api/organisasjonsformer)
+ * - Næringskoder (SN2007, alle nivåer fra seksjon til undergruppe) fra SSB Klass
+ * - Institusjonell sektorkode fra SSB Klass
+ * - Kommuner fra SSB Klass
+ *
+ * Bruk:
+ *   npm run sync:reference
+ */
+
+import { httpClient } from './http-client';
+import { migrateUp } from './migrate';
+import { closePool, getPool, PostgresClient } from './db';
+
+export const ORGANISASJONSFORM_TABLE = 'brreg_ref_organisasjonsform';
+export const NAERINGSKODE_TABLE = 'brreg_ref_naeringskode';
+export const SEKTORKODE_TABLE = 'brreg_ref_sektorkode';
+export const KOMMUNE_TABLE = 'brreg_ref_kommune';
+
+const BRREG_ORGANISASJONSFORMER_URL = 'https://data.brreg.no/enhetsregisteret/api/organisasjonsformer';
+const SSB_KLASS_BASE = 'https://data.ssb.no/api/klass/v1/classifications';
+
+// Klassifikasjons-ID-er i SSB Klass
+const KLASS_NAERINGSKODE = 6;
+const KLASS_SEKTORKODE = 39;
+const KLASS_KOMMUNE = 131;
+
+const INSERT_CHUNK_SIZE = 500;
+
+interface KlassCode {
+  code: string;
+  parentCode: string | null;
+  level: string;
+  name: string;
+  shortName?: string;
+}
+
+interface OrganisasjonsformResponse {
+  _embedded?: {
+    organisasjonsformer?: Array<{ kode: string; beskrivelse?: string; utgaatt?: string }>;
+  };
+}
+
+async function fetchKlassCodes(classificationId: number): Promise<KlassCode[]> {
+  const date = new Date().toISOString().slice(0, 10);
+  const response = await httpClient.get<{ codes?: KlassCode[] }>(
+    `${SSB_KLASS_BASE}/${classificationId}/codesAt`,
+    {
+      params: { date, language: 'nb' },
+      headers: { Accept: 'application/json' },
+      timeout: 30000,
+    },
+  );
+  return response.data.codes ?? [];
+}
+
+/**
+ * Erstatter innholdet i en referansetabell i én transaksjon
+ */
+async function replaceReferenceRows(client: PostgresClient, table: string, columns: string[], rows: unknown[][]) {
+  await client.query('BEGIN');
+  try {
+    await client.query(`DELETE FROM ${table}`);
+
+    for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+      const chunk = rows.slice(i, i + INSERT_CHUNK_SIZE);
+      const values: unknown[] = [];
+      const placeholders = chunk.map((row) => {
+        const offset = values.length;
+        values.push(...row);
+        return `(${row.map((_, index) => `$${offset + index + 1}`).join(', ')})`;
+      });
+      await client.query(
+        `INSERT INTO ${table} (${columns.join(', ')}) VALUES ${placeholders.join(', ')}`,
+        values,
+      );
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Finn seksjonen (nivå 1, bokstav A–U) for hver næringskode ved å følge parentCode oppover
+ */
+function resolveSeksjoner(codes: KlassCode[]): Map<string, string | null> {
+  const byCode = new Map(codes.map((code) => [code.code, code]));
+  const seksjoner = new Map<string, string | null>();
+
+  for (const code of codes) {
+    let current: KlassCode | undefined = code;
+    // Hierarkiet har maks fem nivåer; grensen beskytter mot sykler i dataene
+    for (let depth = 0; current && current.level !== '1' && depth < 10; depth++) {
+      current = current.parentCode ? byCode.get(current.parentCode) : undefined;
+    }
+    seksjoner.set(code.code, current?.level === '1' ? current.code : null);
+  }
+
+  return seksjoner;
+}
+
+async function syncOrganisasjonsformer(client: PostgresClient) {
+  const response = await httpClient.get<OrganisasjonsformResponse>(BRREG_ORGANISASJONSFORMER_URL, {
+    headers: { Accept: 'application/json' },
+    timeout: 30000,
+  });
+  const former = response.data._embedded?.organisasjonsformer ?? [];
+
+  // Samme kode kan forekomme for både enheter og underenheter
+  const unique = new Map(former.map((form) => [form.kode, form]));
+  await replaceReferenceRows(
+    client,
+    ORGANISASJONSFORM_TABLE,
+    ['kode', 'beskrivelse', 'utgaatt'],
+    Array.from(unique.values()).map((form) => [form.kode, form.beskrivelse ?? null, form.utgaatt ?? null]),
+  );
+  return unique.size;
+}
+
+async function syncNaeringskoder(client: PostgresClient) {
+  const codes = await fetchKlassCodes(KLASS_NAERINGSKODE);
+  const seksjoner = resolveSeksjoner(codes);
+  await replaceReferenceRows(
+    client,
+    NAERINGSKODE_TABLE,
+    ['kode', 'parent_kode', 'nivaa', 'navn', 'kortnavn', 'seksjon'],
+    codes.map((code) => [
+      code.code,
+      code.parentCode || null,
+      Number(code.level),
+      code.name,
+      code.shortName || null,
+      seksjoner.get(code.code) ?? null,
+    ]),
+  );
+  return codes.length;
+}
+
+async function syncSektorkoder(client: PostgresClient) {
+  const codes = await fetchKlassCodes(KLASS_SEKTORKODE);
+  await replaceReferenceRows(
+    client,
+    SEKTORKODE_TABLE,
+    ['kode', 'parent_kode', 'nivaa', 'navn'],
+    codes.map((code) => [code.code, code.parentCode || null, Number(code.level), code.name]),
+  );
+  return codes.length;
+}
+
+async function syncKommuner(client: PostgresClient) {
+  const codes = await fetchKlassCodes(KLASS_KOMMUNE);
+  await replaceReferenceRows(
+    client,
+    KOMMUNE_TABLE,
+    ['kommunenummer', 'navn', 'fylkesnummer'],
+    codes.map((code) => [code.code, code.name, code.code.slice(0, 2)]),
+  );
+  return codes.length;
+}
+
+async function main() {
+  const client = await getPool().connect();
+
+  try {
+    await migrateUp(client, { quiet: true });
+
+    const steps: Array<[string, (client: PostgresClient) => Promise<number>]> = [
+      ['organisasjonsformer', syncOrganisasjonsformer],
+      ['næringskoder', syncNaeringskoder],
+      ['sektorkoder', syncSektorkoder],
+      ['kommuner', syncKommuner],
+    ];
+
+    for (const [name, step] of steps) {
+      try {
+        const count = await step(client);
+        console.log(`✅ Lagret ${count} ${name}`);
+      } catch (error) {
+        // En feilende kodeliste skal ikke stoppe de andre; forrige versjon beholdes
+        console.error(`Klarte ikke å oppdatere ${name}:`, (error as Error).message);
+        process.exitCode = 1;
+      }
+    }
+  } finally {
+    client.release();
+    await closePool();
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('Uventet feil under oppdatering av referansedata', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,181 @@
+/**
+ * Rapport per synkronisering: hvilke selskaper som ble opprettet, endret og slettet,
+ * og hvilke felter som ble endret.
+ *
+ * brreg_sync_runs har én rad per kjøring med totaler, og brreg_sync_run_changes har
+ * én rad per berørt selskap med feltendringene fra endringshistorikken.
+ */
+
+import { PostgresClient } from './db';
+import { FieldChange } from './company-history';
+
+export const SYNC_RUNS_TABLE = 'brreg_sync_runs';
+export const SYNC_CHANGES_TABLE = 'brreg_sync_run_changes';
+
+export type ChangeType = 'CREATED' | 'MODIFIED' | 'DELETED';
+
+export interface RunChange {
+  organisasjonsnummer: string;
+  changeType: ChangeType;
+  changes: FieldChange[];
+}
+
+export interface SyncRunRow {
+  id: number;
+  source: string;
+  status: 'RUNNING' | 'COMPLETED' | 'FAILED';
+  started_at: Date | string;
+  finished_at: Date | string | null;
+  processed: number;
+  created: number;
+  modified: number;
+  deleted: number;
+  error: string | null;
+}
+
+export interface SyncRunChangeRow {
+  organisasjonsnummer: string;
+  navn: string | null;
+  change_type: ChangeType;
+  changed_fields: string[];
+  changes: FieldChange[];
+}
+
+export interface SyncRunReport extends SyncRunRow {
+  changes: SyncRunChangeRow[];
+}
+
+export interface SyncRunCounts {
+  processed: number;
+  created: number;
+  modified: number;
+  deleted: number;
+}
+
+export async function startSyncRun(client: PostgresClient, source: string): Promise<number> {
+  const result = await client.query<{ id: string }>(
+    `INSERT INTO ${SYNC_RUNS_TABLE} (source) VALUES ($1) RETURNING id`,
+    [source],
+  );
+  return Number(result.rows[0].id);
+}
+
+/**
+ * Lagre endringene for en batch med én flerrads-INSERT
+ */
+export async function recordRunChanges(client: PostgresClient, runId: number, changes: RunChange[]) {
+  if (!changes.length) {
+    return;
+  }
+
+  const values: unknown[] = [runId];
+  const rows = changes.map((change, index) => {
+    const offset = 1 + index * 4;
+    values.push(
+      change.organisasjonsnummer,
+      change.changeType,
+      change.changes.map((fieldChange) => fieldChange.field),
+      JSON.stringify(change.changes),
+    );
+    return `($1, $${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4})`;
+  });
+
+  await client.query(
+    `
+      INSERT INTO ${SYNC_CHANGES_TABLE} (run_id, organisasjonsnummer, change_type, changed_fields, changes)
+      VALUES ${rows.join(',\n             ')}
+    `,
+    values,
+  );
+}
+
+export async function finishSyncRun(
+  client: PostgresClient,
+  runId: number,
+  counts: SyncRunCounts,
+  error?: Error,
+) {
+  await client.query(
+    `
+      UPDATE ${SYNC_RUNS_TABLE}
+      SET status = $2, finished_at = NOW(), processed = $3, created = $4, modified = $5, deleted = $6, error = $7
+      WHERE id = $1
+    `,
+    [runId, error ? 'FAILED' : 'COMPLETED', counts.processed, counts.created, counts.modified, counts.deleted, error?.message ?? null],
+  );
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '–';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function describeChange(change: SyncRunChangeRow): string {
+  if (change.change_type !== 'MODIFIED') {
+    return '';
+  }
+  return change.changes.map((fieldChange) => `${fieldChange.field}: ${formatValue(fieldChange.from)} → ${formatValue(fieldChange.to)}`).join('; ');
+}
+
+function summaryLine(report: SyncRunReport): string {
+  return `Kjøring #${report.id} (${report.source}, ${report.status}) startet ${new Date(report.started_at).toISOString()}: ` +
+    `${report.processed} behandlet, ${report.created} nye, ${report.modified} endret, ${report.deleted} slettet`;
+}
+
+/**
+ * Rapporten som en tekst-tabell for terminalen
+ */
+export function formatReportAsTable(report: SyncRunReport): string {
+  const header = ['Endring', 'Org.nr', 'Navn', 'Felter'];
+  const rows = report.changes.map((change) => [
+    change.change_type,
+    change.organisasjonsnummer,
+    change.navn ?? '',
+    change.changed_fields.join(', '),
+  ]);
+  const widths = header.map((title, column) =>
+    Math.min(60, Math.max(title.length, ...rows.map((row) => row[column].length))),
+  );
+  const formatRow = (row: string[]) =>
+    row.map((cell, column) => cell.slice(0, widths[column]).padEnd(widths[column])).join('  ').trimEnd();
+
+  return [
+    summaryLine(report),
+    '',
+    formatRow(header),
+    widths.map((width) => '-'.repeat(width)).join('  '),
+    ...rows.map(formatRow),
+  ].join('\n');
+}
+
+/**
+ * Rapporten som markdown, gruppert på type endring
+ */
+export function formatReportAsMarkdown(report: SyncRunReport): string {
+  const lines = [`# Synkronisering #${report.id}`, '', summaryLine(report)];
+  if (report.error) {
+    lines.push('', `**Feil:** ${report.error}`);
+  }
+
+  const sections: Array<[ChangeType, string]> = [
+    ['CREATED', 'Nye selskaper'],
+    ['MODIFIED', 'Endrede selskaper'],
+    ['DELETED', 'Slettede selskaper'],
+  ];
+  for (const [type, title] of sections) {
+    const changes = report.changes.filter((change) => change.change_type === type);
+    if (!changes.length) {
+      continue;
+    }
+    lines.push('', `## ${title} (${changes.length})`, '');
+    for (const change of changes) {
+      const name = change.navn ? ` ${change.navn}` : '';
+      const detail = describeChange(change);
+      lines.push(`- \`${change.organisasjonsnummer}\`${name}${detail ? ` – ${detail}` : ''}`);
+    }
+  }
+
+  return lines.join('\n');
+}
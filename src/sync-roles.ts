@@ -0,0 +1,219 @@
+/**
+ * Script for å hente roller fra /enheter/{orgnr}/roller og lagre dem i brreg_roles
+ *
+ * Bruk:
+ *   npm run sync:roles                     # alle selskaper i brreg_companies
+ *   npm run sync:roles -- 923609016 ...    # kun angitte organisasjonsnumre
+ *   npm run sync:roles -- --limit=100      # de første 100 selskapene
+ */
+
+import { BrregFetcher } from './fetch-companies';
+import { migrateUp } from './migrate';
+import { closePool, getPool, PostgresClient } from './db';
+import { getPostgresEnvConfig, sanitizeIdentifier } from './postgres';
+import { Rolle, Rollegruppe, RollerResponse } from './types';
+
+export const ROLES_TABLE = 'brreg_roles';
+
+export interface RoleRecord {
+  organisasjonsnummer: string;
+  rollegruppeKode: string | null;
+  rollegruppeBeskrivelse: string | null;
+  rolleKode: string;
+  rolleBeskrivelse: string | null;
+  holderType: 'PERSON' | 'ENHET';
+  holderNavn: string | null;
+  personFodselsdato: string | null;
+  holderOrganisasjonsnummer: string | null;
+  fratraadt: boolean;
+  rekkefolge: number | null;
+  sistEndret: string | null;
+  data: Rolle;
+}
+
+/**
+ * Flater ut rollegrupper til én rad per rolleinnehaver
+ */
+export function normalizeRoller(organisasjonsnummer: string, response: RollerResponse): RoleRecord[] {
+  const records: RoleRecord[] = [];
+
+  for (const gruppe of response.rollegrupper ?? []) {
+    for (const rolle of gruppe.roller ?? []) {
+      const record = normalizeRolle(organisasjonsnummer, gruppe, rolle);
+      if (record) {
+        records.push(record);
+      }
+    }
+  }
+
+  return records;
+}
+
+function normalizeRolle(organisasjonsnummer: string, gruppe: Rollegruppe, rolle: Rolle): RoleRecord | null {
+  const rolleKode = rolle.type?.kode;
+  if (!rolleKode || rolle.avregistrert) {
+    return null;
+  }
+
+  const base = {
+    organisasjonsnummer,
+    rollegruppeKode: gruppe.type?.kode ?? null,
+    rollegruppeBeskrivelse: gruppe.type?.beskrivelse ?? null,
+    rolleKode,
+    rolleBeskrivelse: rolle.type?.beskrivelse ?? null,
+    fratraadt: Boolean(rolle.fratraadt),
+    rekkefolge: typeof rolle.rekkefolge === 'number' ? rolle.rekkefolge : null,
+    sistEndret: gruppe.sistEndret ?? null,
+    data: rolle,
+  };
+
+  if (rolle.person) {
+    const navn = rolle.person.navn;
+    const fulltNavn = [navn?.fornavn, navn?.mellomnavn, navn?.etternavn].filter(Boolean).join(' ');
+    return {
+      ...base,
+      holderType: 'PERSON',
+      holderNavn: fulltNavn || null,
+      personFodselsdato: rolle.person.fodselsdato ?? null,
+      holderOrganisasjonsnummer: null,
+    };
+  }
+
+  if (rolle.enhet) {
+    return {
+      ...base,
+      holderType: 'ENHET',
+      holderNavn: rolle.enhet.navn?.join(' ') || null,
+      personFodselsdato: null,
+      holderOrganisasjonsnummer: rolle.enhet.organisasjonsnummer ?? null,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Erstatter alle roller for ett selskap i én transaksjon
+ */
+async function replaceRoles(client: PostgresClient, organisasjonsnummer: string, records: RoleRecord[]) {
+  await client.query('BEGIN');
+  try {
+    await client.query(`DELETE FROM ${ROLES_TABLE} WHERE organisasjonsnummer = $1`, [organisasjonsnummer]);
+
+    for (const record of records) {
+      await client.query(
+        `
+          INSERT INTO ${ROLES_TABLE} (
+            organisasjonsnummer,
+            rollegruppe_kode,
+            rollegruppe_beskrivelse,
+            rolle_kode,
+            rolle_beskrivelse,
+            holder_type,
+            holder_navn,
+            person_fodselsdato,
+            holder_organisasjonsnummer,
+            fratraadt,
+            rekkefolge,
+            sist_endret,
+            data
+          )
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+        `,
+        [
+          record.organisasjonsnummer,
+          record.rollegruppeKode,
+          record.rollegruppeBeskrivelse,
+          record.rolleKode,
+          record.rolleBeskrivelse,
+          record.holderType,
+          record.holderNavn,
+          record.personFodselsdato,
+          record.holderOrganisasjonsnummer,
+          record.fratraadt,
+          record.rekkefolge,
+          record.sistEndret,
+          record.data,
+        ],
+      );
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  }
+}
+
+async function fetchOrgNumbers(client: PostgresClient, companiesTable: string, limit: number | null): Promise<string[]> {
+  const result = await client.query<{ organisasjonsnummer: string }>(
+    `
+      SELECT organisasjonsnummer
+      FROM ${companiesTable}
+      WHERE deleted_at IS NULL
+      ORDER BY organisasjonsnummer ASC
+      ${limit ? 'LIMIT $1' : ''}
+    `,
+    limit ? [limit] : [],
+  );
+  return result.rows.map((row) => row.organisasjonsnummer);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const limitArg = args.find((arg) => arg.startsWith('--limit='));
+  const limit = limitArg ? Number(limitArg.slice('--limit='.length)) || null : null;
+  const orgArgs = args
+    .filter((arg) => !arg.startsWith('--'))
+    .map((value) => value.replace(/\D+/g, ''))
+    .filter(Boolean);
+
+  const postgresConfig = getPostgresEnvConfig();
+  const companiesTable = sanitizeIdentifier(postgresConfig.tableName);
+  const fetcher = new BrregFetcher();
+
+  const client = await getPool().connect();
+
+  try {
+    await migrateUp(client, { quiet: true });
+
+    const organisasjonsnumre = orgArgs.length ? orgArgs : await fetchOrgNumbers(client, companiesTable, limit);
+    console.log(`🔎 Skal hente roller for ${organisasjonsnumre.length} enheter`);
+
+    let processed = 0;
+    let totalRoles = 0;
+    for (const orgnr of organisasjonsnumre) {
+      const response = await fetcher.fetchRoller(orgnr);
+      processed += 1;
+
+      // Ved feil beholder vi eksisterende roller i stedet for å slette dem
+      if (!response) {
+        continue;
+      }
+
+      const records = normalizeRoller(orgnr, response);
+      try {
+        await replaceRoles(client, orgnr, records);
+        totalRoles += records.length;
+      } catch (error) {
+        console.error(`[${orgnr}] Klarte ikke å lagre roller:`, (error as Error).message);
+      }
+
+      if (processed % 100 === 0 || processed === organisasjonsnumre.length) {
+        console.log(`Hentet roller for ${processed}/${organisasjonsnumre.length} enheter (${totalRoles} roller)`);
+      }
+    }
+
+    console.log(`✅ Ferdig! Lagret ${totalRoles} roller for ${processed} enheter`);
+  } finally {
+    client.release();
+    await closePool();
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('Uventet feil under henting av roller', error);
+    process.exit(1);
+  });
+}
@@ -2,20 +2,23 @@
  * Script for å synkronisere bedriftsdata til AWS DynamoDB
  */
 
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, PutCommand, BatchWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBClient, ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, PutCommand, BatchWriteCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as dotenv from 'dotenv';
 import { chain } from 'stream-chain';
 import { parser } from 'stream-json';
 import { streamArray } from 'stream-json/streamers/StreamArray';
-import { Enhet } from './types';
+import { Enhet, SlettetEnhet } from './types';
+import { logValidationSummary, validateRecord } from './validation';
 
 dotenv.config();
 
 const OUTPUT_DIR = path.join(__dirname, '../data');
 const COMPANIES_FILE = path.join(OUTPUT_DIR, 'companies.json');
+const DELTA_FILE = path.join(OUTPUT_DIR, 'companies-delta.json');
+const DELETED_FILE = path.join(OUTPUT_DIR, 'companies-deleted.json');
 
 const AWS_REGION = process.env.AWS_REGION || 'eu-north-1';
 const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME || 'br-register-companies';
@@ -119,20 +122,68 @@ class DynamoDBSyncer {
     }
   }
 
+  /**
+   * Marker en bedrift som slettet (tombstone) i stedet for å fjerne elementet.
+   * Returnerer false hvis bedriften ikke finnes i tabellen.
+   */
+  async markDeleted(deletion: SlettetEnhet): Promise<boolean> {
+    try {
+      await this.docClient.send(
+        new UpdateCommand({
+          TableName: this.tableName,
+          Key: { organisasjonsnummer: deletion.organisasjonsnummer },
+          UpdateExpression: 'SET deletedAt = :deletedAt, lastSynced = :lastSynced',
+          ConditionExpression: 'attribute_exists(organisasjonsnummer)',
+          ExpressionAttributeValues: {
+            ':deletedAt': deletion.slettetTidspunkt,
+            ':lastSynced': new Date().toISOString(),
+          },
+        })
+      );
+      return true;
+    } catch (error: any) {
+      if (error instanceof ConditionalCheckFailedException) {
+        return false;
+      }
+      console.error(`Feil ved sletting av ${deletion.organisasjonsnummer}:`, error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Synkroniser slettinger fra fil til DynamoDB
+   */
+  async syncDeletions(deletedFile: string = DELETED_FILE): Promise<void> {
+    if (!fs.existsSync(deletedFile)) {
+      console.log(`Ingen slettinger å synkronisere (${deletedFile} finnes ikke)`);
+      return;
+    }
+
+    const deletions: SlettetEnhet[] = JSON.parse(fs.readFileSync(deletedFile, 'utf-8'));
+    let marked = 0;
+    for (const deletion of deletions) {
+      if (await this.markDeleted(deletion)) {
+        marked += 1;
+      }
+    }
+
+    console.log(`✅ Markerte ${marked}/${deletions.length} bedrifter som slettet i DynamoDB`);
+  }
+
   /**
    * Synkroniser alle bedrifter fra fil til DynamoDB
    */
-  async syncAll(): Promise<void> {
-    if (!fs.existsSync(COMPANIES_FILE)) {
-      throw new Error(`Fil ikke funnet: ${COMPANIES_FILE}. Kjør 'npm run fetch' først.`);
+  async syncAll(companiesFile: string = COMPANIES_FILE): Promise<void> {
+    if (!fs.existsSync(companiesFile)) {
+      throw new Error(`Fil ikke funnet: ${companiesFile}. Kjør 'npm run fetch' først.`);
     }
 
-    console.log(`Laster bedriftsdata fra ${COMPANIES_FILE}...`);
+    console.log(`Laster bedriftsdata fra ${companiesFile}...`);
     console.log(`Starter synkronisering til DynamoDB tabell: ${this.tableName}`);
     console.log(`Region: ${AWS_REGION}\n`);
 
     const jsonPipeline = chain([
-      fs.createReadStream(COMPANIES_FILE),
+      fs.createReadStream(companiesFile),
       parser(),
       streamArray(),
     ]);
@@ -147,6 +198,10 @@ class DynamoDBSyncer {
       if (!company?.organisasjonsnummer) {
         continue;
       }
+      // Ugyldige poster legges i karantene i stedet for å lastes opp
+      if (!validateRecord('enhet', company)) {
+        continue;
+      }
 
       batch.push(company);
 
@@ -168,6 +223,7 @@ class DynamoDBSyncer {
     }
 
     console.log(`\n✅ Ferdig! Synkronisert ${processed} bedrifter til DynamoDB`);
+    logValidationSummary();
   }
 }
 
@@ -180,7 +236,13 @@ async function main() {
   const syncer = new DynamoDBSyncer(AWS_REGION, TABLE_NAME);
 
   try {
-    await syncer.syncAll();
+    // --delta synkroniserer kun endringene fra `npm run fetch:delta`
+    if (process.argv.includes('--delta')) {
+      await syncer.syncAll(DELTA_FILE);
+      await syncer.syncDeletions(DELETED_FILE);
+    } else {
+      await syncer.syncAll(COMPANIES_FILE);
+    }
   } catch (error: any) {
     console.error('Feil i hovedfunksjon:', error.message);
     process.exit(1);
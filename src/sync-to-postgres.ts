@@ -1,86 +1,249 @@
 import fs from 'fs';
 import path from 'path';
+import { chain } from 'stream-chain';
+import { parser } from 'stream-json';
+import { streamArray } from 'stream-json/streamers/StreamArray';
 
-import { Enhet } from './types';
-import { createPostgresClient, getPostgresEnvConfig, sanitizeIdentifier } from './postgres';
+import { Enhet, SlettetEnhet } from './types';
+import { closePool, getPool, PostgresClient } from './db';
+import { getPostgresEnvConfig, sanitizeIdentifier } from './postgres';
+import { logValidationSummary, validateRecord } from './validation';
+import { migrateUp } from './migrate';
+import { COMPANY_COLUMNS, companyColumnValues } from './backfill-company-columns';
+import { closeCompanyVersion, recordCompanyVersions } from './company-history';
+import {
+  finishSyncRun,
+  recordRunChanges,
+  RunChange,
+  startSyncRun,
+  SyncRunCounts,
+} from './sync-report';
 
 const postgresConfig = getPostgresEnvConfig();
 const tableName = sanitizeIdentifier(postgresConfig.tableName);
-// When compiled, __dirname is dist/src, so we need to go up two levels to reach project root
-const companiesPath = path.join(__dirname, '..', '..', 'data', 'companies.json');
+// Same data directory that fetch-companies.ts writes to
+const dataDir = path.join(__dirname, '../data');
+// --delta syncs only the records written by `npm run fetch:delta`
+const isDelta = process.argv.includes('--delta');
+const companiesPath = isDelta
+  ? path.join(dataDir, 'companies-delta.json')
+  : path.join(dataDir, 'companies.json');
+const deletedPath = path.join(dataDir, 'companies-deleted.json');
+// Postgres allows at most 65535 bind parameters per statement
+const MAX_BIND_PARAMETERS = 65535;
+// organisasjonsnummer, navn, organisasjonsform_kode, naeringskode1 and data, plus the extracted columns
+const PARAMS_PER_ROW = 5 + COMPANY_COLUMNS.length;
+// Rows per multi-row INSERT
+const BATCH_SIZE = resolveBatchSize(process.env.POSTGRES_WRITE_BATCH_SIZE ?? '1000');
 
-if (!fs.existsSync(companiesPath)) {
-  throw new Error(`Could not find companies file at ${companiesPath}. Run npm run fetch first.`);
+function resolveBatchSize(value: string): number {
+  const size = Number(value);
+  if (!Number.isInteger(size) || size < 1) {
+    throw new Error(`POSTGRES_WRITE_BATCH_SIZE must be a positive integer, got "${value}"`);
+  }
+  const maxRows = Math.floor(MAX_BIND_PARAMETERS / PARAMS_PER_ROW);
+  if (size > maxRows) {
+    console.warn(`POSTGRES_WRITE_BATCH_SIZE=${size} exceeds the parameter limit, using ${maxRows}`);
+    return maxRows;
+  }
+  return size;
 }
 
-const companies: Enhet[] = JSON.parse(fs.readFileSync(companiesPath, 'utf8'));
-
-if (!companies.length) {
-  console.log('No companies to sync. Exiting.');
-  process.exit(0);
-}
+// Checked out from the pool in main() and released when the sync finishes
+let client: PostgresClient;
 
-const client = createPostgresClient(postgresConfig);
+// Every sync is recorded as a run; the report is readable with `npm run report:sync`
+let runId: number | null = null;
+const counts: SyncRunCounts = { processed: 0, created: 0, modified: 0, deleted: 0 };
 
 async function main() {
+  if (!fs.existsSync(companiesPath)) {
+    throw new Error(`Could not find companies file at ${companiesPath}. Run npm run fetch first.`);
+  }
+
+  const deletions: SlettetEnhet[] = isDelta && fs.existsSync(deletedPath)
+    ? JSON.parse(fs.readFileSync(deletedPath, 'utf8'))
+    : [];
+
   console.log(`Connecting to postgres://${postgresConfig.host}:${postgresConfig.port}/${postgresConfig.database}`);
-  await client.connect();
+  client = await getPool().connect();
 
-  await ensureTable();
+  // Creates or upgrades the companies, history and sync report tables
+  await migrateUp(client, { quiet: true });
+  runId = await startSyncRun(client, isDelta ? 'delta' : 'full');
+  console.log(`Started sync run #${runId}`);
 
+  // Stream the file instead of JSON.parse so the full register fits in memory
+  const jsonPipeline = chain([
+    fs.createReadStream(companiesPath),
+    parser(),
+    streamArray(),
+  ]);
+
+  const startedAt = Date.now();
+  let batch: Enhet[] = [];
   let processed = 0;
-  for (const company of companies) {
-    await upsertCompany(company);
-    processed += 1;
-    if (processed % 10 === 0 || processed === companies.length) {
-      console.log(`Synced ${processed}/${companies.length}`);
+
+  const flush = async () => {
+    await upsertCompanies(batch);
+    processed += batch.length;
+    counts.processed = processed;
+    batch = [];
+    console.log(`Synced ${processed} companies (${formatRate(processed, startedAt)})`);
+  };
+
+  for await (const data of jsonPipeline as AsyncIterable<{ value: Enhet }>) {
+    const company = data.value;
+    if (!company?.organisasjonsnummer) {
+      continue;
+    }
+    // Invalid records are quarantined instead of written
+    if (!validateRecord('enhet', company)) {
+      continue;
     }
+
+    batch.push(company);
+    if (batch.length >= BATCH_SIZE) {
+      await flush();
+    }
+  }
+
+  if (batch.length > 0) {
+    await flush();
+  }
+
+  if (processed === 0 && deletions.length === 0) {
+    console.log('No companies to sync.');
+  }
+
+  let tombstoned = 0;
+  for (const deletion of deletions) {
+    tombstoned += await markCompanyDeleted(deletion);
+  }
+  if (deletions.length) {
+    console.log(`Marked ${tombstoned}/${deletions.length} companies as deleted`);
   }
 
+  await finishSyncRun(client, runId, counts);
+  console.log(
+    `Sync run #${runId}: ${counts.created} created, ${counts.modified} modified, ${counts.deleted} deleted`,
+  );
+
+  logValidationSummary();
   console.log('Done.');
-  await client.end();
 }
 
-async function ensureTable() {
-  const createSql = `
-    CREATE TABLE IF NOT EXISTS ${tableName} (
-      organisasjonsnummer TEXT PRIMARY KEY,
-      navn TEXT,
-      organisasjonsform_kode TEXT,
-      naeringskode1 TEXT,
-      data JSONB NOT NULL,
-      last_synced TIMESTAMPTZ DEFAULT NOW()
-    );
-  `;
-  await client.query(createSql);
-}
+/**
+ * Upsert a batch with a single multi-row INSERT ... ON CONFLICT statement and record
+ * a new history version for every company whose data changed, in one transaction
+ */
+async function upsertCompanies(companies: Enhet[]) {
+  // ON CONFLICT cannot touch the same row twice in one statement, so keep the last occurrence
+  const unique = Array.from(
+    new Map(companies.map((company) => [company.organisasjonsnummer, company])).values(),
+  );
+
+  const columns = [
+    'organisasjonsnummer',
+    'navn',
+    'organisasjonsform_kode',
+    'naeringskode1',
+    'data',
+    ...COMPANY_COLUMNS.map(([column]) => column),
+  ];
+
+  const values: unknown[] = [];
+  const rows = unique.map((company) => {
+    const rowValues = [
+      company.organisasjonsnummer,
+      company.navn ?? null,
+      company.organisasjonsform?.kode ?? null,
+      company.naeringskode1?.kode ?? null,
+      company,
+      ...companyColumnValues(company),
+    ];
+    const offset = values.length;
+    values.push(...rowValues);
+    return `(${rowValues.map((_, index) => `$${offset + index + 1}`).join(', ')}, NOW())`;
+  });
 
-async function upsertCompany(company: Enhet) {
   const insertSql = `
     INSERT INTO ${tableName} (
-      organisasjonsnummer,
-      navn,
-      organisasjonsform_kode,
-      naeringskode1,
-      data,
+      ${columns.join(',\n      ')},
       last_synced
     )
-    VALUES ($1, $2, $3, $4, $5, NOW())
+    VALUES ${rows.join(',\n           ')}
     ON CONFLICT (organisasjonsnummer) DO UPDATE SET
-      navn = EXCLUDED.navn,
-      organisasjonsform_kode = EXCLUDED.organisasjonsform_kode,
-      naeringskode1 = EXCLUDED.naeringskode1,
-      data = EXCLUDED.data,
-      last_synced = NOW();
+      ${columns.slice(1).map((column) => `${column} = EXCLUDED.${column}`).join(',\n      ')},
+      last_synced = NOW(),
+      deleted_at = NULL;
   `;
 
-  await client.query(insertSql, [
-    company.organisasjonsnummer,
-    company.navn ?? null,
-    company.organisasjonsform?.kode ?? null,
-    company.naeringskode1?.kode ?? null,
-    company,
-  ]);
+  await client.query('BEGIN');
+  try {
+    await client.query(insertSql, values);
+    const versions = await recordCompanyVersions(
+      client,
+      tableName,
+      unique.map((company) => company.organisasjonsnummer),
+    );
+
+    const changes: RunChange[] = [
+      ...versions.created.map((organisasjonsnummer) => ({
+        organisasjonsnummer,
+        changeType: 'CREATED' as const,
+        changes: [],
+      })),
+      ...versions.modified.map((modified) => ({ ...modified, changeType: 'MODIFIED' as const })),
+    ];
+    if (runId !== null) {
+      await recordRunChanges(client, runId, changes);
+    }
+    await client.query('COMMIT');
+
+    counts.created += versions.created.length;
+    counts.modified += versions.modified.length;
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  }
+}
+
+function formatRate(rows: number, startedAt: number) {
+  const seconds = (Date.now() - startedAt) / 1000;
+  const rate = seconds > 0 ? Math.round(rows / seconds) : rows;
+  return `${rate} rows/s, ${seconds.toFixed(1)}s elapsed`;
+}
+
+/**
+ * Tombstone a company instead of deleting the row, so history and joins survive.
+ * Returns the number of rows affected (0 when the company was never synced).
+ */
+async function markCompanyDeleted(deletion: SlettetEnhet) {
+  await client.query('BEGIN');
+  try {
+    const result = await client.query(
+      `
+        UPDATE ${tableName}
+        SET deleted_at = $2, last_synced = NOW()
+        WHERE organisasjonsnummer = $1 AND deleted_at IS NULL
+      `,
+      [deletion.organisasjonsnummer, deletion.slettetTidspunkt],
+    );
+    await closeCompanyVersion(client, deletion.organisasjonsnummer, deletion.slettetTidspunkt);
+    const affected = result.rowCount ?? 0;
+    if (affected > 0 && runId !== null) {
+      await recordRunChanges(client, runId, [
+        { organisasjonsnummer: deletion.organisasjonsnummer, changeType: 'DELETED', changes: [] },
+      ]);
+    }
+    await client.query('COMMIT');
+    counts.deleted += affected;
+    return affected;
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  }
 }
 
 export async function syncToPostgres() {
@@ -88,8 +251,16 @@ export async function syncToPostgres() {
     await main();
   } catch (error) {
     console.error('Failed to sync to Postgres:', error);
-    await client.end().catch(() => {});
+    if (runId !== null) {
+      await finishSyncRun(client, runId, counts, error as Error).catch(() => {});
+    }
     throw error;
+  } finally {
+    // client is unset when checking out a connection failed
+    if (client) {
+      client.release();
+    }
+    await closePool();
   }
 }
 
@@ -0,0 +1,171 @@
+import fs from 'fs';
+import path from 'path';
+import { chain } from 'stream-chain';
+import { parser } from 'stream-json';
+import { streamArray } from 'stream-json/streamers/StreamArray';
+
+import { Underenhet } from './types';
+import { closePool, getPool, PostgresClient } from './db';
+import { getPostgresEnvConfig, sanitizeIdentifier } from './postgres';
+import { migrateUp } from './migrate';
+
+const UNDERENHETER_TABLE = 'brreg_underenheter';
+const BATCH_SIZE = 500;
+
+const postgresConfig = getPostgresEnvConfig();
+const companiesTable = sanitizeIdentifier(postgresConfig.tableName);
+const underenheterPath = path.join(__dirname, '../data', 'underenheter.json');
+
+// Checked out from the pool in main() and released when the sync finishes
+let client: PostgresClient;
+
+async function main() {
+  if (!fs.existsSync(underenheterPath)) {
+    throw new Error(`Could not find sub-units file at ${underenheterPath}. Run npm run fetch:underenheter first.`);
+  }
+
+  console.log(`Connecting to postgres://${postgresConfig.host}:${postgresConfig.port}/${postgresConfig.database}`);
+  client = await getPool().connect();
+
+  await migrateUp(client, { quiet: true });
+
+  // Stream the file: the sub-unit register is too large to JSON.parse in one go
+  const jsonPipeline = chain([
+    fs.createReadStream(underenheterPath),
+    parser(),
+    streamArray(),
+  ]);
+
+  let batch: Underenhet[] = [];
+  let processed = 0;
+  let skipped = 0;
+
+  for await (const data of jsonPipeline as AsyncIterable<{ value: Underenhet }>) {
+    const underenhet = data.value;
+    if (!underenhet?.organisasjonsnummer) {
+      continue;
+    }
+
+    batch.push(underenhet);
+
+    if (batch.length === BATCH_SIZE) {
+      skipped += await upsertBatch(batch);
+      processed += batch.length;
+      console.log(`Synced ${processed} sub-units (${skipped} without a known parent skipped)`);
+      batch = [];
+    }
+  }
+
+  if (batch.length > 0) {
+    skipped += await upsertBatch(batch);
+    processed += batch.length;
+  }
+
+  console.log(`Done. Synced ${processed - skipped}/${processed} sub-units, ${skipped} skipped without a known parent.`);
+}
+
+/**
+ * Upserts one batch inside a transaction. Sub-units whose parent is not in the
+ * companies table are skipped so the foreign key holds; returns how many were skipped.
+ */
+async function upsertBatch(batch: Underenhet[]) {
+  let skipped = 0;
+
+  await client.query('BEGIN');
+  try {
+    for (const underenhet of batch) {
+      const inserted = await upsertUnderenhet(underenhet);
+      if (!inserted) {
+        skipped += 1;
+      }
+    }
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  }
+
+  return skipped;
+}
+
+async function upsertUnderenhet(underenhet: Underenhet) {
+  if (!underenhet.overordnetEnhet) {
+    return false;
+  }
+
+  const insertSql = `
+    INSERT INTO ${UNDERENHETER_TABLE} (
+      organisasjonsnummer,
+      overordnet_enhet,
+      navn,
+      naeringskode1,
+      antall_ansatte,
+      beliggenhet_postnummer,
+      beliggenhet_poststed,
+      beliggenhet_kommunenummer,
+      beliggenhetsadresse,
+      data,
+      last_synced
+    )
+    SELECT $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW()
+    WHERE EXISTS (SELECT 1 FROM ${companiesTable} WHERE organisasjonsnummer = $2)
+    ON CONFLICT (organisasjonsnummer) DO UPDATE SET
+      overordnet_enhet = EXCLUDED.overordnet_enhet,
+      navn = EXCLUDED.navn,
+      naeringskode1 = EXCLUDED.naeringskode1,
+      antall_ansatte = EXCLUDED.antall_ansatte,
+      beliggenhet_postnummer = EXCLUDED.beliggenhet_postnummer,
+      beliggenhet_poststed = EXCLUDED.beliggenhet_poststed,
+      beliggenhet_kommunenummer = EXCLUDED.beliggenhet_kommunenummer,
+      beliggenhetsadresse = EXCLUDED.beliggenhetsadresse,
+      data = EXCLUDED.data,
+      last_synced = NOW();
+  `;
+
+  const result = await client.query(insertSql, [
+    underenhet.organisasjonsnummer,
+    underenhet.overordnetEnhet,
+    underenhet.navn ?? null,
+    underenhet.naeringskode1?.kode ?? null,
+    parseAntallAnsatte(underenhet.antallAnsatte),
+    underenhet.beliggenhetsadresse?.postnummer ?? null,
+    underenhet.beliggenhetsadresse?.poststed ?? null,
+    underenhet.beliggenhetsadresse?.kommunenummer ?? null,
+    underenhet.beliggenhetsadresse ?? null,
+    underenhet,
+  ]);
+
+  return (result.rowCount ?? 0) > 0;
+}
+
+function parseAntallAnsatte(value: Underenhet['antallAnsatte']): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+  if (value && typeof value === 'object') {
+    return value.fra ?? value.til ?? null;
+  }
+  return null;
+}
+
+export async function syncUnderenheterToPostgres() {
+  try {
+    await main();
+  } catch (error) {
+    console.error('Failed to sync sub-units to Postgres:', error);
+    throw error;
+  } finally {
+    // client is unset when checking out a connection failed
+    if (client) {
+      client.release();
+    }
+    await closePool();
+  }
+}
+
+// Only run main if this file is executed directly (npm run sync:pg:underenheter)
+if (require.main === module) {
+  syncUnderenheterToPostgres().catch(() => {
+    process.exit(1);
+  });
+}
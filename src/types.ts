@@ -36,7 +36,8 @@ export interface Enhet {
   naeringskode1?: Naeringskode;
   naeringskode2?: Naeringskode;
   naeringskode3?: Naeringskode;
-  antallAnsatte?: {
+  // API-et gir antall som tall, eldre svar kan gi et intervall
+  antallAnsatte?: number | {
     fra?: number;
     til?: number;
     gruppe?: string;
@@ -56,16 +57,111 @@ export interface Enhet {
   [key: string]: any; // For å tillate ekstra felter
 }
 
+/**
+ * Underenhet (virksomhet/lokasjon) som hører til en hovedenhet via overordnetEnhet
+ */
+export interface Underenhet {
+  organisasjonsnummer: string;
+  navn?: string;
+  overordnetEnhet?: string;
+  organisasjonsform?: {
+    kode?: string;
+    beskrivelse?: string;
+  };
+  registreringsdatoEnhetsregisteret?: string;
+  naeringskode1?: Naeringskode;
+  naeringskode2?: Naeringskode;
+  naeringskode3?: Naeringskode;
+  // Bulk-filen gir antall som tall, andre svar kan gi et intervall
+  antallAnsatte?: number | {
+    fra?: number;
+    til?: number;
+    gruppe?: string;
+  };
+  harRegistrertAntallAnsatte?: boolean;
+  beliggenhetsadresse?: Adresse;
+  postadresse?: Adresse;
+  oppstartsdato?: string;
+  datoEierskifte?: string;
+  nedleggelsesdato?: string;
+  _links?: Links;
+  [key: string]: any; // For å tillate ekstra felter
+}
+
+export interface Rolletype {
+  kode?: string;
+  beskrivelse?: string;
+}
+
+export interface RollePerson {
+  fodselsdato?: string;
+  navn?: {
+    fornavn?: string;
+    mellomnavn?: string;
+    etternavn?: string;
+  };
+  erDoed?: boolean;
+}
+
+export interface RolleEnhet {
+  organisasjonsnummer?: string;
+  organisasjonsform?: {
+    kode?: string;
+    beskrivelse?: string;
+  };
+  navn?: string[];
+  erSlettet?: boolean;
+}
+
+/**
+ * En rolle i en rollegruppe. Innehaveren er enten en person eller en enhet.
+ */
+export interface Rolle {
+  type?: Rolletype;
+  person?: RollePerson;
+  enhet?: RolleEnhet;
+  fratraadt?: boolean;
+  avregistrert?: boolean;
+  rekkefolge?: number;
+  [key: string]: any; // For å tillate ekstra felter
+}
+
+export interface Rollegruppe {
+  type?: Rolletype;
+  sistEndret?: string;
+  roller?: Rolle[];
+}
+
+/**
+ * Svar fra /enheter/{orgnr}/roller
+ */
+export interface RollerResponse {
+  rollegrupper?: Rollegruppe[];
+  _links?: Links;
+}
+
 export interface Oppdatering {
+  oppdateringsid?: number;
   organisasjonsnummer: string;
   endringstype: 'OPPRETTET' | 'ENDRET' | 'SLETTET';
   tidspunkt: string;
+  dato?: string;
+}
+
+/**
+ * Enhet som er slettet i Enhetsregisteret (fra endringstype SLETTET)
+ */
+export interface SlettetEnhet {
+  organisasjonsnummer: string;
+  slettetTidspunkt: string;
 }
 
 export interface ApiResponse<T> {
   _embedded?: {
     enheter?: T[];
+    underenheter?: T[];
     oppdateringer?: T[];
+    oppdaterteEnheter?: T[];
   };
   _links?: {
     self?: { href: string };
@@ -0,0 +1,305 @@
+/**
+ * Kjøretidsvalidering av data fra brreg før det skrives videre.
+ *
+ * - Sjekker organisasjonsnummer mot MOD11-kontrollsifferet
+ * - Sjekker type og format på kjente felter i Enhet, Oppdatering og regnskap
+ * - Poster som feiler legges i karantene (data/quarantine.ndjson) med årsak
+ * - Ukjente felter og nye enum-verdier telles som schema drift og logges til slutt
+ *
+ * Som http-client er tilstanden delt i prosessen, slik at én oppsummering dekker hele kjøringen.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type RecordKind = 'enhet' | 'oppdatering' | 'regnskap';
+
+type FieldType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+interface FieldRule {
+  type: FieldType | FieldType[];
+  required?: boolean;
+  /** Verdien må være et gyldig organisasjonsnummer (MOD11) */
+  orgnr?: boolean;
+  pattern?: RegExp;
+  /** Kjente verdier; andre verdier telles som drift, men godtas */
+  values?: string[];
+}
+
+/** Felter kan være nøstet med punktum, f.eks. 'organisasjonsform.kode' */
+type RecordSchema = Record<string, FieldRule>;
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+export interface KindSummary {
+  checked: number;
+  quarantined: number;
+  errors: Record<string, number>;
+  unknownFields: Record<string, number>;
+  unexpectedValues: Record<string, number>;
+}
+
+export const QUARANTINE_FILE = path.join(__dirname, '../data/quarantine.ndjson');
+
+const DATE = /^\d{4}-\d{2}-\d{2}/;
+const ORGNR_WEIGHTS = [3, 2, 7, 6, 5, 4, 3, 2];
+
+const ENHET_SCHEMA: RecordSchema = {
+  organisasjonsnummer: { type: 'string', required: true, orgnr: true },
+  navn: { type: 'string' },
+  organisasjonsform: { type: 'object' },
+  'organisasjonsform.kode': { type: 'string' },
+  'organisasjonsform.beskrivelse': { type: 'string' },
+  registreringsdatoEnhetsregisteret: { type: 'string', pattern: DATE },
+  registrertIMvaregisteret: { type: 'boolean' },
+  naeringskode1: { type: 'object' },
+  'naeringskode1.kode': { type: 'string' },
+  naeringskode2: { type: 'object' },
+  naeringskode3: { type: 'object' },
+  hjelpeenhetskode: { type: 'object' },
+  antallAnsatte: { type: ['number', 'object'] },
+  harRegistrertAntallAnsatte: { type: 'boolean' },
+  registreringsdatoAntallAnsatteEnhetsregisteret: { type: 'string', pattern: DATE },
+  registreringsdatoantallansatteNAVAaregisteret: { type: 'string', pattern: DATE },
+  forretningsadresse: { type: 'object' },
+  postadresse: { type: 'object' },
+  beliggenhetsadresse: { type: 'object' },
+  hjemmeside: { type: 'string' },
+  epostadresse: { type: 'string' },
+  telefon: { type: 'string' },
+  mobil: { type: 'string' },
+  stiftelsesdato: { type: 'string', pattern: DATE },
+  vedtektsdato: { type: 'string', pattern: DATE },
+  vedtektsfestetFormaal: { type: 'array' },
+  aktivitet: { type: 'array' },
+  institusjonellSektorkode: { type: 'object' },
+  overordnetEnhet: { type: 'string', orgnr: true },
+  registrertIForetaksregisteret: { type: 'boolean' },
+  registrertIFrivillighetsregisteret: { type: 'boolean' },
+  registrertIStiftelsesregisteret: { type: 'boolean' },
+  registrertIForeningsregisteret: { type: 'boolean' },
+  registrertIPartiregisteret: { type: 'boolean' },
+  sisteInnsendteAarsregnskap: { type: 'string' },
+  konkurs: { type: 'boolean' },
+  konkursdato: { type: 'string', pattern: DATE },
+  underAvvikling: { type: 'boolean' },
+  underAvviklingDato: { type: 'string', pattern: DATE },
+  underTvangsavviklingEllerTvangsopplosning: { type: 'boolean' },
+  tvangsavvikletPgaManglendeSlettingDato: { type: 'string', pattern: DATE },
+  tvangsopplostPgaManglendeDagligLederDato: { type: 'string', pattern: DATE },
+  tvangsopplostPgaManglendeRevisorDato: { type: 'string', pattern: DATE },
+  tvangsopplostPgaManglendeRegnskapDato: { type: 'string', pattern: DATE },
+  tvangsopplostPgaMangelfulltStyreDato: { type: 'string', pattern: DATE },
+  slettedato: { type: 'string', pattern: DATE },
+  maalform: { type: 'string', values: ['Bokmål', 'Nynorsk'] },
+  paategninger: { type: 'array' },
+  _links: { type: 'object' },
+};
+
+const OPPDATERING_SCHEMA: RecordSchema = {
+  oppdateringsid: { type: 'number' },
+  organisasjonsnummer: { type: 'string', required: true, orgnr: true },
+  endringstype: { type: 'string', required: true, values: ['OPPRETTET', 'ENDRET', 'SLETTET', 'FJERNET', 'UKJENT'] },
+  tidspunkt: { type: 'string', pattern: DATE },
+  dato: { type: 'string', pattern: DATE },
+  endringer: { type: 'array' },
+  _links: { type: 'object' },
+};
+
+const REGNSKAP_SCHEMA: RecordSchema = {
+  id: { type: 'number' },
+  journalnr: { type: ['string', 'number'] },
+  regnskapstype: { type: 'string', values: ['SELSKAP', 'KONSERN'] },
+  virksomhet: { type: 'object' },
+  'virksomhet.organisasjonsnummer': { type: 'string', orgnr: true },
+  regnskapsperiode: { type: 'object' },
+  'regnskapsperiode.fraDato': { type: 'string', pattern: DATE },
+  'regnskapsperiode.tilDato': { type: 'string', pattern: DATE },
+  valuta: { type: 'string' },
+  oppstillingsplan: { type: 'string' },
+  avviklingsregnskap: { type: 'boolean' },
+  revisjon: { type: 'object' },
+  regnkapsprinsipper: { type: 'object' },
+  egenkapitalGjeld: { type: 'object' },
+  eiendeler: { type: 'object' },
+  resultatregnskapResultat: { type: 'object' },
+  dokumenter: { type: 'array' },
+  _links: { type: 'object' },
+};
+
+const SCHEMAS: Record<RecordKind, RecordSchema> = {
+  enhet: ENHET_SCHEMA,
+  oppdatering: OPPDATERING_SCHEMA,
+  regnskap: REGNSKAP_SCHEMA,
+};
+
+const summaries = new Map<RecordKind, KindSummary>();
+
+function getSummary(kind: RecordKind): KindSummary {
+  let summary = summaries.get(kind);
+  if (!summary) {
+    summary = { checked: 0, quarantined: 0, errors: {}, unknownFields: {}, unexpectedValues: {} };
+    summaries.set(kind, summary);
+  }
+  return summary;
+}
+
+function increment(counter: Record<string, number>, key: string) {
+  counter[key] = (counter[key] ?? 0) + 1;
+}
+
+/**
+ * Organisasjonsnummer er ni siffer der det siste er et MOD11-kontrollsiffer
+ */
+export function isValidOrganisasjonsnummer(value: unknown): boolean {
+  if (typeof value !== 'string' || !/^\d{9}$/.test(value)) {
+    return false;
+  }
+
+  const digits = value.split('').map(Number);
+  const sum = ORGNR_WEIGHTS.reduce((acc, weight, index) => acc + weight * digits[index], 0);
+  const remainder = sum % 11;
+  const control = remainder === 0 ? 0 : 11 - remainder;
+
+  return control !== 10 && control === digits[8];
+}
+
+function typeOf(value: unknown): FieldType | 'null' | 'undefined' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  const type = typeof value;
+  return type === 'string' || type === 'number' || type === 'boolean' || type === 'object' ? type : 'undefined';
+}
+
+function readPath(record: Record<string, unknown>, fieldPath: string): unknown {
+  return fieldPath.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    record
+  );
+}
+
+/**
+ * Valider en post mot skjemaet uten sideeffekter
+ */
+export function validateAgainstSchema(kind: RecordKind, record: unknown): ValidationResult {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    return { valid: false, errors: ['posten er ikke et objekt'] };
+  }
+
+  const errors: string[] = [];
+  const data = record as Record<string, unknown>;
+
+  for (const [field, rule] of Object.entries(SCHEMAS[kind])) {
+    const value = readPath(data, field);
+    if (value === undefined || value === null) {
+      if (rule.required) {
+        errors.push(`${field} mangler`);
+      }
+      continue;
+    }
+
+    const allowed = Array.isArray(rule.type) ? rule.type : [rule.type];
+    const actual = typeOf(value);
+    if (!allowed.includes(actual as FieldType)) {
+      errors.push(`${field} har type ${actual}, forventet ${allowed.join('|')}`);
+      continue;
+    }
+
+    if (rule.orgnr && !isValidOrganisasjonsnummer(value)) {
+      errors.push(`${field} feiler MOD11-kontroll`);
+    } else if (rule.pattern && typeof value === 'string' && !rule.pattern.test(value)) {
+      errors.push(`${field} har ugyldig format`);
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+function recordDrift(kind: RecordKind, record: Record<string, unknown>, summary: KindSummary) {
+  const schema = SCHEMAS[kind];
+
+  for (const field of Object.keys(record)) {
+    if (!schema[field]) {
+      increment(summary.unknownFields, field);
+    }
+  }
+
+  for (const [field, rule] of Object.entries(schema)) {
+    if (!rule.values) continue;
+    const value = readPath(record, field);
+    if (typeof value === 'string' && !rule.values.includes(value)) {
+      increment(summary.unexpectedValues, `${field}=${value}`);
+    }
+  }
+}
+
+function quarantine(kind: RecordKind, record: unknown, errors: string[], file: string) {
+  const dir = path.dirname(file);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const entry = {
+    kind,
+    organisasjonsnummer: (record as Record<string, unknown> | null)?.organisasjonsnummer ?? null,
+    reasons: errors,
+    quarantinedAt: new Date().toISOString(),
+    record,
+  };
+  fs.appendFileSync(file, JSON.stringify(entry) + '\n', 'utf-8');
+}
+
+/**
+ * Valider en post, registrer drift og legg den i karantene hvis den feiler.
+ * Returnerer true hvis posten kan brukes videre.
+ */
+export function validateRecord(kind: RecordKind, record: unknown, quarantineFile: string = QUARANTINE_FILE): boolean {
+  const summary = getSummary(kind);
+  summary.checked += 1;
+
+  const { valid, errors } = validateAgainstSchema(kind, record);
+  if (record && typeof record === 'object' && !Array.isArray(record)) {
+    recordDrift(kind, record as Record<string, unknown>, summary);
+  }
+
+  if (!valid) {
+    summary.quarantined += 1;
+    for (const error of errors) {
+      increment(summary.errors, error);
+    }
+    quarantine(kind, record, errors, quarantineFile);
+  }
+
+  return valid;
+}
+
+export function getValidationSummary(): Record<string, KindSummary> {
+  return Object.fromEntries(summaries);
+}
+
+function formatTop(counter: Record<string, number>, limit = 10): string {
+  return Object.entries(counter)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, limit)
+    .map(([key, count]) => `${key} (${count})`)
+    .join(', ');
+}
+
+export function logValidationSummary() {
+  for (const [kind, summary] of summaries) {
+    console.log(`[validering] ${kind}: ${summary.checked} sjekket, ${summary.quarantined} i karantene`);
+    if (summary.quarantined > 0) {
+      console.log(`[validering]   feil: ${formatTop(summary.errors)}`);
+      console.log(`[validering]   se ${path.relative(process.cwd(), QUARANTINE_FILE)}`);
+    }
+    if (Object.keys(summary.unknownFields).length > 0) {
+      console.log(`[validering]   nye felter: ${formatTop(summary.unknownFields)}`);
+    }
+    if (Object.keys(summary.unexpectedValues).length > 0) {
+      console.log(`[validering]   nye verdier: ${formatTop(summary.unexpectedValues)}`);
+    }
+  }
+}